@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isRefinePresetId, isRefinementConfigured, refineText } from '@/lib/refinement';
+
+// Longer transcripts than this are almost certainly a mistake
+const MAX_TEXT_LENGTH = 20000;
+
+if (!isRefinementConfigured()) {
+  console.warn('Refinement is not configured, set OPENAI_API_KEY or REFINE_BASE_URL to rewrite transcripts');
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    const { text, preset, model } = body as Record<string, unknown>;
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { error: 'Text is required' },
+        { status: 400 }
+      );
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Text must be at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (!isRefinePresetId(preset)) {
+      return NextResponse.json(
+        { error: `Unknown refine preset: ${preset}` },
+        { status: 400 }
+      );
+    }
+    if (model !== undefined && typeof model !== 'string') {
+      return NextResponse.json(
+        { error: 'Model must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRefinementConfigured()) {
+      throw new Error('Refinement is not configured');
+    }
+
+    console.log('Refining transcript with preset:', preset, 'Length:', text.length);
+    const result = await refineText({ text, preset, model: model || undefined });
+    console.log('Refined transcript:', result.text.substring(0, 50) + '...');
+
+    return NextResponse.json({ text: result.text, model: result.model, preset });
+  } catch (error) {
+    console.error('Refinement error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
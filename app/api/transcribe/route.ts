@@ -1,29 +1,171 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { writeFile } from 'fs/promises';
 import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import os from 'os';
+import {
+  getTranscriptionProvider,
+  isTranscriptionProviderId,
+  TimestampGranularity,
+  TranscriptionProvider,
+  TranscriptionRequest,
+} from '@/lib/transcription';
+import { getStatusForErrorCode, TranscriptionError } from '@/lib/transcription/errors';
+import { validateLocalWhisperPaths } from '@/lib/transcription/whisperCpp';
+import { applyGlossaryToResult, buildGlossaryPrompt, GlossaryEntry, parseGlossary } from '@/lib/transcription/glossary';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Optional form fields passed through to the provider
+type TranscriptionOptions = Pick<TranscriptionRequest, 'task' | 'language' | 'prompt' | 'temperature' | 'timestamps'>;
 
-// Validate the OpenAI API key
-if (!process.env.OPENAI_API_KEY) {
-  console.error('OPENAI_API_KEY is not set in environment variables');
+// ISO-639-1 (or -3) language code, e.g. "en" or "de"
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}$/;
+
+const TIMESTAMP_GRANULARITIES: TimestampGranularity[] = ['segment', 'word'];
+
+// Validate the configuration of the default provider
+const defaultProvider = getTranscriptionProvider();
+if (!defaultProvider.isConfigured()) {
+  console.error(`${defaultProvider.label} transcription provider is not configured, check environment variables`);
+}
+
+/**
+ * Delete the uploaded audio once the provider is done with it
+ */
+async function deleteTempFile(tempFilePath: string) {
+  try {
+    await fs.promises.unlink(tempFilePath);
+    console.log('Temporary file deleted');
+  } catch (cleanupError) {
+    console.error('Error deleting temporary file:', cleanupError);
+    // Continue despite cleanup error
+  }
+}
+
+/**
+ * Read the optional task, language, prompt, temperature and timestamps fields of the form
+ * @returns The options, or a message describing the first invalid field
+ */
+function parseTranscriptionOptions(formData: FormData): { options: TranscriptionOptions } | { error: string } {
+  const options: TranscriptionOptions = {};
+
+  const task = formData.get('task');
+  if (task) {
+    if (task !== 'transcribe' && task !== 'translate') {
+      return { error: `Unknown task: ${task}` };
+    }
+    options.task = task;
+  }
+
+  const language = formData.get('language');
+  if (language) {
+    if (typeof language !== 'string' || !LANGUAGE_CODE_PATTERN.test(language)) {
+      return { error: `Invalid language code: ${language}` };
+    }
+    options.language = language;
+  }
+
+  const prompt = formData.get('prompt');
+  if (typeof prompt === 'string' && prompt.trim()) {
+    options.prompt = prompt.trim();
+  }
+
+  const temperature = formData.get('temperature');
+  if (temperature) {
+    const value = Number(temperature);
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      return { error: `Temperature must be between 0 and 1, got: ${temperature}` };
+    }
+    options.temperature = value;
+  }
+
+  // Comma separated, e.g. "segment,word"
+  const timestamps = formData.get('timestamps');
+  if (typeof timestamps === 'string' && timestamps) {
+    const granularities = timestamps.split(',').map(value => value.trim());
+    const unknown = granularities.find(value => !(TIMESTAMP_GRANULARITIES as string[]).includes(value));
+    if (unknown) {
+      return { error: `Unknown timestamp granularity: ${unknown}` };
+    }
+    options.timestamps = Array.from(new Set(granularities)) as TimestampGranularity[];
+  }
+
+  return { options };
 }
 
-// Define a type for OpenAI errors
-interface OpenAIError extends Error {
-  response?: {
-    json: () => Promise<{ error: { message: string } }>;
-    statusText?: string;
-  };
-  status?: number;
-  code?: string;
+/**
+ * Read the optional glossary field, a JSON array of entries
+ * @returns The entries, or a message if the field isn't valid JSON
+ */
+function parseGlossaryField(formData: FormData): { glossary: GlossaryEntry[] } | { error: string } {
+  const field = formData.get('glossary');
+  if (typeof field !== 'string' || !field) {
+    return { glossary: [] };
+  }
+
+  try {
+    return { glossary: parseGlossary(JSON.parse(field)) };
+  } catch {
+    return { error: 'Glossary must be a JSON array' };
+  }
+}
+
+/**
+ * Read the optional model and program the local provider should use, from the settings
+ * @returns The validated paths, or a message describing the first invalid one
+ */
+async function parseLocalWhisperFields(formData: FormData) {
+  const modelPath = formData.get('localModelPath');
+  const binaryPath = formData.get('localBinaryPath');
+  return validateLocalWhisperPaths({
+    modelPath: typeof modelPath === 'string' && modelPath ? modelPath : undefined,
+    binaryPath: typeof binaryPath === 'string' && binaryPath ? binaryPath : undefined,
+  });
+}
+
+/**
+ * Stream the transcription back as newline-delimited JSON.
+ * Each line is `{ type: 'delta', text }`, followed by a final `{ type: 'done', text, model, ... }`
+ * or `{ type: 'error', error, code }` if the provider fails part way through.
+ * Deltas are passed on as recognised, the glossary is applied to the final text.
+ */
+function createTranscriptionStream(
+  provider: TranscriptionProvider,
+  transcriptionRequest: TranscriptionRequest,
+  glossary: GlossaryEntry[]
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (payload: object) => {
+        controller.enqueue(encoder.encode(JSON.stringify(payload) + '\n'));
+      };
+
+      try {
+        for await (const event of provider.transcribeStream(transcriptionRequest)) {
+          if (event.type === 'done') {
+            console.log('Streamed transcription finished:', event.text.substring(0, 50) + '...');
+            // Tell the client which model produced the text, like the JSON response does
+            send({ ...applyGlossaryToResult(event, glossary), model: transcriptionRequest.model });
+          } else {
+            send(event);
+          }
+        }
+      } catch (error) {
+        console.error('Streaming transcription error:', error);
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: error instanceof TranscriptionError ? error.code : 'unknown',
+        });
+      } finally {
+        // The file has to outlive the request handler when streaming
+        await deleteTempFile(transcriptionRequest.filePath);
+        controller.close();
+      }
+    },
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -41,9 +183,52 @@ export async function POST(request: NextRequest) {
     // Parse the form data
     const formData = await request.formData();
     const audioFile = formData.get('file') as File;
-    const model = formData.get('model') as string || 'whisper-1';
+    const requestedProvider = formData.get('provider') || null;
     const stream = formData.get('stream') === 'true';
 
+    // Pick the provider named in the request, or the configured default
+    if (requestedProvider !== null && !isTranscriptionProviderId(requestedProvider)) {
+      return NextResponse.json(
+        { error: `Unknown transcription provider: ${requestedProvider}` },
+        { status: 400 }
+      );
+    }
+
+    // The settings can name the model and program of the local provider
+    const parsedLocalPaths = await parseLocalWhisperFields(formData);
+    if ('error' in parsedLocalPaths) {
+      return NextResponse.json(
+        { error: parsedLocalPaths.error },
+        { status: 400 }
+      );
+    }
+    const provider = getTranscriptionProvider(requestedProvider ?? undefined, parsedLocalPaths.paths);
+    const model = formData.get('model') as string || provider.defaultModel;
+
+    const parsedOptions = parseTranscriptionOptions(formData);
+    if ('error' in parsedOptions) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      );
+    }
+
+    if (parsedOptions.options.timestamps && !provider.supportsTimestamps(model)) {
+      return NextResponse.json(
+        { error: `${provider.label} model ${model} does not return timestamps` },
+        { status: 400 }
+      );
+    }
+
+    const parsedGlossary = parseGlossaryField(formData);
+    if ('error' in parsedGlossary) {
+      return NextResponse.json(
+        { error: parsedGlossary.error },
+        { status: 400 }
+      );
+    }
+    const { glossary } = parsedGlossary;
+
     if (!audioFile) {
       return NextResponse.json(
         { error: 'Audio file is required' },
@@ -52,7 +237,7 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('Received audio file:', audioFile.name, 'Size:', audioFile.size, 'Type:', audioFile.type);
-    console.log('Stream mode:', stream);
+    console.log('Stream mode:', stream, 'Options:', parsedOptions.options, 'Glossary entries:', glossary.length);
 
     // Validate the file
     if (audioFile.size === 0) {
@@ -87,70 +272,73 @@ export async function POST(request: NextRequest) {
       throw new Error('File was written but has zero size');
     }
     
-    // Validate the OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is not configured');
+    // Make sure the provider can actually be called
+    if (!provider.isConfigured()) {
+      // Only OpenAI needs a key, the others are missing a URL or model on the server
+      throw new TranscriptionError(
+        `${provider.label} transcription provider is not configured`,
+        provider.id === 'openai' ? 'auth' : 'config'
+      );
     }
     
-    // Call OpenAI API with the file
-    console.log('Calling OpenAI API with model:', model);
+    // Call the provider with the file
+    console.log(`Calling ${provider.label} provider with model:`, model);
+    const transcriptionRequest: TranscriptionRequest = {
+      ...parsedOptions.options,
+      // Listing the glossary terms in the prompt makes the model more likely to spell them right
+      prompt: buildGlossaryPrompt(parsedOptions.options.prompt, glossary),
+      filePath: tempFilePath,
+      model,
+      // Stop transcribing when the client goes away
+      signal: request.signal,
+    };
     
-    try {
-      const transcription = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(tempFilePath),
-        model: model,
-        response_format: 'json',
-      });
+    if (stream) {
+      const body = createTranscriptionStream(provider, transcriptionRequest, glossary);
+      // The stream now owns the temporary file
+      tempFilePath = '';
       
-      console.log('Transcription received:', transcription.text.substring(0, 50) + '...');
+      return new Response(body, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+    
+    const transcription = await provider.transcribe(transcriptionRequest);
+    
+    console.log('Transcription received:', transcription.text.substring(0, 50) + '...');
 
-      // Clean up the temporary file
-      try {
-        await fs.promises.unlink(tempFilePath);
-        console.log('Temporary file deleted');
-      } catch (cleanupError) {
-        console.error('Error deleting temporary file:', cleanupError);
-        // Continue despite cleanup error
-      }
+    // Fix whatever the model still got wrong
+    const corrected = applyGlossaryToResult(transcription, glossary);
 
-      return NextResponse.json({ text: transcription.text });
-    } catch (openaiError) {
-      console.error('OpenAI API error:', openaiError);
-      
-      // Extract the error message from the OpenAI error
-      let errorMessage = 'OpenAI API error';
-      const typedError = openaiError as OpenAIError;
-      
-      if (typedError.response) {
-        try {
-          const errorData = await typedError.response.json();
-          errorMessage = errorData.error?.message || errorMessage;
-        } catch {
-          // If we can't parse the JSON, use the status text
-          errorMessage = typedError.response.statusText || errorMessage;
-        }
-      } else if (typedError.message) {
-        errorMessage = typedError.message;
-      }
-      
-      throw new Error(`OpenAI API error: ${errorMessage}`);
-    }
+    // Clean up the temporary file
+    await deleteTempFile(tempFilePath);
+
+    // Timestamps, when requested, come along with the text
+    return NextResponse.json({ ...corrected, model });
   } catch (error) {
     console.error('Transcription error:', error);
     
     // Clean up the temporary file if it exists
     if (tempFilePath) {
-      try {
-        await fs.promises.unlink(tempFilePath);
-        console.log('Temporary file deleted after error');
-      } catch (cleanupError) {
-        console.error('Error deleting temporary file after error:', cleanupError);
-        // Continue despite cleanup error
-      }
+      await deleteTempFile(tempFilePath);
+    }
+    
+    // Tell the client what kind of failure it was, so it knows whether to try again
+    if (error instanceof TranscriptionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        {
+          status: getStatusForErrorCode(error.code),
+          headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined,
+        }
+      );
     }
     
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'unknown' },
       { status: 500 }
     );
   }
@@ -1,11 +1,18 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import dynamic from 'next/dynamic';
-import { setupKeyboardShortcuts } from "@/utils/keyboardShortcuts";
+import { formatAccelerator, isAcceleratorKey, setupKeyboardShortcuts } from "@/utils/keyboardShortcuts";
 import ClientOnly from "@/components/ClientOnly";
 import "./electron.css"; // Import the electron-specific CSS
 import { AudioDevice, getAudioInputDevices } from "@/utils/audioDevices";
+import { trackInteractiveRegions } from "@/utils/interactiveRegions";
+import { getTimestampGranularities, TranscriptionAttempt } from "@/utils/transcriptionClient";
+import { createMediaFile, isSupportedMediaFile, MEDIA_FILE_ACCEPT } from "@/utils/mediaFiles";
+import type { QueuedTranscription } from "@/utils/transcriptionQueue";
+import { useAppSettings } from "@/hooks/useAppSettings";
+import { RecordingInfo, useTranscript } from "@/hooks/useTranscript";
+import { useTranscriptionQueue } from "@/hooks/useTranscriptionQueue";
 
 // Force dynamic rendering
 export const dynamicConfig = 'force-dynamic';
@@ -15,6 +22,13 @@ const Recorder = dynamic(() => import('@/components/Recorder'), { ssr: false });
 const Transcriber = dynamic(() => import('@/components/Transcriber'), { ssr: false });
 const Visualizer = dynamic(() => import('@/components/Visualizer'), { ssr: false });
 const StreamingTranscription = dynamic(() => import('@/components/StreamingTranscription'), { ssr: false });
+const HistoryPanel = dynamic(() => import('@/components/HistoryPanel'), { ssr: false });
+const ShortcutSettings = dynamic(() => import('@/components/ShortcutSettings'), { ssr: false });
+const SettingsPanel = dynamic(() => import('@/components/SettingsPanel'), { ssr: false });
+const GlossaryEditor = dynamic(() => import('@/components/GlossaryEditor'), { ssr: false });
+const RefineModeSwitch = dynamic(() => import('@/components/RefineModeSwitch'), { ssr: false });
+const TranscriptExport = dynamic(() => import('@/components/TranscriptExport'), { ssr: false });
+const TranscriptionQueue = dynamic(() => import('@/components/TranscriptionQueue'), { ssr: false });
 
 // Check if we're in Electron
 const isElectron = () => {
@@ -24,25 +38,102 @@ const isElectron = () => {
 export default function Home() {
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [progressText, setProgressText] = useState<string>("");
-  const [isTranscribing, setIsTranscribing] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
   const [isElectronMode, setIsElectronMode] = useState(false);
-  const [isTranscriptionClosed, setIsTranscriptionClosed] = useState(false);
+  
+  // Details of the current recording or file, stored with the transcription in history
+  const recordingInfoRef = useRef<RecordingInfo | null>(null);
+  
+  // Audio and video files dropped on the window or picked to transcribe
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  // Persistent settings, and a ref for callbacks that shouldn't change with them
+  const {
+    settings,
+    settingsRef,
+    settingsError,
+    updateSettings,
+    checkShortcutConflicts,
+    saveShortcutBindings,
+    handleShortcutCaptureChange
+  } = useAppSettings(isMounted, isElectronMode);
+  const [showSettings, setShowSettings] = useState(false);
+  
+  // Recordings whose transcription failed, kept to try again later
+  const {
+    queuedTranscriptions,
+    failureQueued,
+    resetQueueStatus,
+    queueFailedAudio,
+    queueFailedChunk,
+    startRetry,
+    completeRetry,
+    deleteQueuedTranscription
+  } = useTranscriptionQueue(isMounted, recordingInfoRef);
+  const [showQueue, setShowQueue] = useState(false);
+  
+  // The transcript as it streams in, is refined and copied
+  const {
+    isTranscribing,
+    progressText,
+    rawTranscript,
+    timedTranscript,
+    transcriptionNotice,
+    isTranscriptionClosed,
+    status: transcriptionStatus,
+    resetTranscription: resetTranscript,
+    cancelLiveTranscription,
+    handleRetry,
+    handleTranscriptionStart,
+    handleTranscriptionProgress,
+    handleTranscriptionResult,
+    handleChunkReady,
+    handleCloseTranscription
+  } = useTranscript({
+    isMounted,
+    isElectronMode,
+    settingsRef,
+    recordingInfoRef,
+    failureQueued,
+    onSuccess: completeRetry,
+    onChunkFailed: queueFailedChunk
+  });
   
   // State for mic selection dropdown
   const [audioDevices, setAudioDevices] = useState<AudioDevice[]>([]);
-  const [selectedMicDevice, setSelectedMicDevice] = useState<string>('');
   const [showMicDropdown, setShowMicDropdown] = useState(false);
+  // Use the saved microphone while it's connected, the first one otherwise
+  const selectedMicDevice = audioDevices.some(device => device.deviceId === settings.microphoneId)
+    ? settings.microphoneId
+    : audioDevices[0]?.deviceId || '';
+  
+  // Live mode transcribes chunks at pauses while still recording
+  const liveTranscriptionEnabled = settings.liveTranscription;
+  // Memoised so the Transcriber only sees a new array when the setting changes
+  const timestampGranularities = useMemo(() => getTimestampGranularities(settings.timestamps), [settings.timestamps]);
+  
+  // Auto-paste into the focused app (Electron mode only)
+  const autoPasteOptions = settings.autoPaste;
+  
+  // History panel visibility (Electron mode only)
+  const [showHistory, setShowHistory] = useState(false);
+  
+  // User-defined shortcut bindings and the panel to edit them
+  const shortcutBindings = settings.shortcuts;
+  const [showShortcutSettings, setShowShortcutSettings] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  
+  // Set when the current recording was cancelled, so its audio is discarded
+  const [isRecordingCancelled, setIsRecordingCancelled] = useState(false);
+  
+  // Set while a recording started by the push-to-talk shortcut is held (Electron mode)
+  const pushToTalkHeldRef = useRef(false);
   
   // Debounce timer ref for window resizing
   const resizeTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastResizeStateRef = useRef<boolean | null>(null);
 
-  // Ref for debouncing transcription progress updates
-  const progressUpdateTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const lastProgressTextRef = useRef<string>("");
-
   // Startup protection flag
   const startupCompleteRef = useRef<boolean>(false);
 
@@ -79,81 +170,54 @@ export default function Home() {
         const devices = await getAudioInputDevices();
         console.log("Available audio devices:", devices);
         setAudioDevices(devices);
-        
-        // Set default device if we have devices and no selection yet
-        if (devices.length > 0 && !selectedMicDevice) {
-          setSelectedMicDevice(devices[0].deviceId);
-        }
       } catch (error) {
         console.error("Error loading audio devices:", error);
       }
     };
 
     loadAudioDevices();
-  }, [isMounted, selectedMicDevice]);
+  }, [isMounted]);
 
-  // Handle mouse interaction for Electron click-through behavior
+  // Only the visible controls take the mouse, the rest of the window lets clicks through
   useEffect(() => {
-    if (!isMounted || !isElectronMode || !window.electronAPI) return;
+    if (!isMounted || !isElectronMode || !window.electronAPI?.sendMousePosition) return;
     
-    // Function to handle mouse enter on interactive elements
-    const handleMouseEnter = () => {
-      window.electronAPI.sendMouseEvent('enter');
-    };
-    
-    // Function to handle mouse leave on interactive elements
-    const handleMouseLeave = () => {
-      window.electronAPI.sendMouseEvent('leave');
-    };
+    return trackInteractiveRegions(window.electronAPI);
+  }, [isMounted, isElectronMode]);
+
+  const updateAutoPasteOptions = useCallback((changes: Partial<AutoPasteOptions>) => {
+    updateSettings({ autoPaste: changes });
+  }, [updateSettings]);
+
+  // Tell the main process what we're doing, so its shortcuts act accordingly
+  useEffect(() => {
+    if (!isMounted || !isElectronMode || !window.electronAPI?.sendRecordingState) return;
     
-    // Add mouse event listeners to all interactive elements
-    const addInteractiveListeners = () => {
-      // Get all interactive elements
-      const interactiveElements = document.querySelectorAll(
-        '.status-bar-container, .mic-dropdown-container, .transcription-container, button'
-      );
-      
-      // Add event listeners to each element
-      interactiveElements.forEach(el => {
-        el.addEventListener('mouseenter', handleMouseEnter);
-        el.addEventListener('mouseleave', handleMouseLeave);
-      });
-      
-      // Return cleanup function
-      return () => {
-        interactiveElements.forEach(el => {
-          el.removeEventListener('mouseenter', handleMouseEnter);
-          el.removeEventListener('mouseleave', handleMouseLeave);
-        });
-      };
-    };
+    window.electronAPI.sendRecordingState(isRecording ? 'recording' : isTranscribing ? 'transcribing' : 'idle');
+  }, [isMounted, isElectronMode, isRecording, isTranscribing]);
+
+  // The tray menu offers the same microphones as the dropdown
+  useEffect(() => {
+    if (!isMounted || !isElectronMode || !window.electronAPI?.sendMicrophones) return;
     
-    // We need to wait a bit for the DOM to be fully rendered
-    const setupTimer = setTimeout(() => {
-      const cleanup = addInteractiveListeners();
-      
-      // Set up a mutation observer to handle dynamically added elements
-      const observer = new MutationObserver(() => {
-        cleanup(); // Clean up existing listeners
-        addInteractiveListeners(); // Re-add listeners to updated DOM
-      });
-      
-      // Start observing the document body for DOM changes
-      observer.observe(document.body, { 
-        childList: true,
-        subtree: true
-      });
-      
-      // Return cleanup function for the effect
-      return () => {
-        cleanup();
-        observer.disconnect();
-      };
-    }, 1000);
+    window.electronAPI.sendMicrophones(
+      audioDevices.map(device => ({ deviceId: device.deviceId, name: device.displayName })),
+      selectedMicDevice
+    );
+  }, [isMounted, isElectronMode, audioDevices, selectedMicDevice]);
+
+  // Settings picked from the tray menu
+  useEffect(() => {
+    if (!isMounted || !isElectronMode || !window.electronAPI?.onOpenSettings) return;
     
-    return () => {
-      clearTimeout(setupTimer);
-    };
+    return window.electronAPI.onOpenSettings(() => {
+      setShowMicDropdown(false);
+      setShowHistory(false);
+      setShowQueue(false);
+      setShowShortcutSettings(false);
+      setShowGlossary(false);
+      setShowSettings(true);
+    });
   }, [isMounted, isElectronMode]);
 
   // Close mic dropdown when clicking outside
@@ -174,22 +238,33 @@ export default function Home() {
     };
   }, [showMicDropdown]);
 
+  // Clear the previous transcript before a new recording, file or retry
+  const resetTranscription = useCallback(() => {
+    resetTranscript();
+    resetQueueStatus();
+    setShowHistory(false);
+    setShowQueue(false);
+  }, [resetTranscript, resetQueueStatus]);
+
   // Define handlers as useCallbacks to avoid recreating them on every render
   const startRecordingHandler = useCallback(() => {
     console.log("Start recording handler called");
     if (!isRecording && !isTranscribing) {
       console.log("Starting recording...");
       setIsRecording(true);
+      setIsRecordingCancelled(false);
       
       // Reset progress text and hide transcription box when starting a new recording
-      setProgressText("");
+      resetTranscription();
       
-      // Reset the closed state when starting a new recording
-      setIsTranscriptionClosed(false);
+      recordingInfoRef.current = {
+        startedAt: Date.now(),
+        microphone: audioDevices.find(device => device.deviceId === selectedMicDevice)?.displayName
+      };
     } else {
       console.log("Cannot start recording: already recording or transcribing");
     }
-  }, [isRecording, isTranscribing]);
+  }, [isRecording, isTranscribing, audioDevices, selectedMicDevice, resetTranscription]);
 
   const stopRecordingHandler = useCallback(() => {
     console.log("Stop recording handler called");
@@ -201,20 +276,197 @@ export default function Home() {
     }
   }, [isRecording]);
 
-  // Handler for manually closing the transcription box
-  const handleCloseTranscription = useCallback(() => {
-    console.log("Closing transcription box");
-    setIsTranscriptionClosed(true);
+  // The speaker went quiet; a held push-to-talk shortcut decides for itself
+  const handleAutoStop = useCallback(() => {
+    if (pushToTalkHeldRef.current) return;
+    stopRecordingHandler();
+  }, [stopRecordingHandler]);
+
+  // Stop recording without transcribing anything
+  const cancelRecordingHandler = useCallback(() => {
+    console.log("Cancel recording handler called");
+    if (isRecording) {
+      console.log("Cancelling recording...");
+      setIsRecordingCancelled(true);
+      setIsRecording(false);
+      
+      cancelLiveTranscription();
+      recordingInfoRef.current = null;
+    } else {
+      console.log("Cannot cancel recording: not currently recording");
+    }
+  }, [isRecording, cancelLiveTranscription]);
+
+  // Transcribe an audio or video file the same way as a recording
+  const transcribeFile = useCallback((file: File) => {
+    if (isRecording || isTranscribing) {
+      console.log("Cannot transcribe a file: already recording or transcribing");
+      return;
+    }
+    if (!isSupportedMediaFile(file.name)) {
+      console.warn("Not transcribing unsupported file:", file.name);
+      return;
+    }
     
-    // Also reset text state to ensure clean state for next recording
-    setProgressText("");
+    console.log("Transcribing file:", file.name, "size:", file.size);
+    resetTranscription();
     
-    // In Electron mode, shrink window back to minimal size
-    if (isElectronMode && window.electronAPI) {
-      window.electronAPI.setWindowSize(false);
+    recordingInfoRef.current = { startedAt: Date.now(), fileName: file.name };
+    // The Transcriber picks the file up like a finished recording
+    setAudioBlob(file);
+  }, [isRecording, isTranscribing, resetTranscription]);
+
+  // Transcribe a queued recording again, it leaves the queue once it succeeds
+  const retryQueuedTranscription = useCallback((entry: QueuedTranscription) => {
+    if (isRecording || isTranscribing) {
+      console.log("Cannot retry: already recording or transcribing");
+      return;
+    }
+    
+    resetTranscription();
+    startRetry(entry);
+    setAudioBlob(entry.audio);
+  }, [isRecording, isTranscribing, resetTranscription, startRetry]);
+
+  // Choose a file through the native dialog in Electron, a file input in the browser
+  const openFilePicker = useCallback(() => {
+    setShowMicDropdown(false);
+    if (isElectronMode && window.electronAPI?.pickFileForTranscription) {
+      window.electronAPI.pickFileForTranscription().catch((err) => {
+        console.error("Error picking a file to transcribe:", err);
+      });
+    } else {
+      fileInputRef.current?.click();
     }
   }, [isElectronMode]);
 
+  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = "";
+    if (file) {
+      transcribeFile(file);
+    }
+  }, [transcribeFile]);
+
+  // Accept audio and video files dropped anywhere on the window
+  useEffect(() => {
+    if (!isMounted) return;
+    
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files');
+    
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      // Without this the file is opened in place of the app
+      e.preventDefault();
+      setIsDraggingFile(true);
+    };
+    
+    const handleDragLeave = (e: DragEvent) => {
+      // No related target means the drag left the window
+      if (!e.relatedTarget) {
+        setIsDraggingFile(false);
+      }
+    };
+    
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDraggingFile(false);
+      
+      const file = Array.from(e.dataTransfer?.files ?? []).find(dropped => isSupportedMediaFile(dropped.name));
+      if (file) {
+        transcribeFile(file);
+      } else {
+        console.warn("No audio or video file to transcribe in the drop");
+      }
+    };
+    
+    document.addEventListener('dragover', handleDragOver);
+    document.addEventListener('dragleave', handleDragLeave);
+    document.addEventListener('drop', handleDrop);
+    return () => {
+      document.removeEventListener('dragover', handleDragOver);
+      document.removeEventListener('dragleave', handleDragLeave);
+      document.removeEventListener('drop', handleDrop);
+    };
+  }, [isMounted, transcribeFile]);
+
+  // Files picked through the main process dialog arrive here
+  useEffect(() => {
+    if (!isMounted || !isElectronMode || !window.electronAPI?.onTranscribeFile) return;
+    
+    return window.electronAPI.onTranscribeFile(({ name, data }) => {
+      console.log("File to transcribe received from main process:", name);
+      transcribeFile(createMediaFile(name, data));
+    });
+  }, [isMounted, isElectronMode, transcribeFile]);
+
+  // Toggle history panel visibility
+  const toggleHistory = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMicDropdown(false);
+    setShowShortcutSettings(false);
+    setShowGlossary(false);
+    setShowSettings(false);
+    setShowQueue(false);
+    setShowHistory(prev => !prev);
+  }, []);
+
+  // Toggle the list of failed transcriptions
+  const toggleQueue = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMicDropdown(false);
+    setShowShortcutSettings(false);
+    setShowGlossary(false);
+    setShowSettings(false);
+    setShowHistory(false);
+    setShowQueue(prev => !prev);
+  }, []);
+
+  // Toggle settings visibility, the shortcut and glossary editors count as part of the settings
+  const toggleSettings = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowMicDropdown(false);
+    setShowHistory(false);
+    setShowQueue(false);
+    if (showShortcutSettings || showGlossary) {
+      setShowShortcutSettings(false);
+      setShowGlossary(false);
+    } else {
+      setShowSettings(prev => !prev);
+    }
+  }, [showShortcutSettings, showGlossary]);
+
+  // The main process moves the window with the pointer between these two
+  const handleWindowDragStart = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !window.electronAPI?.startWindowDrag) return;
+    
+    // Keep getting the release while the window moves under the pointer
+    e.currentTarget.setPointerCapture(e.pointerId);
+    window.electronAPI.startWindowDrag();
+  }, []);
+
+  const handleWindowDragEnd = useCallback(() => {
+    window.electronAPI?.endWindowDrag?.();
+  }, []);
+
+  // Switch from the settings panel to the shortcut editor
+  const openShortcutSettings = useCallback(() => {
+    setShowSettings(false);
+    setShowShortcutSettings(true);
+  }, []);
+
+  // Switch from the settings panel to the glossary editor
+  const openGlossary = useCallback(() => {
+    setShowSettings(false);
+    setShowGlossary(true);
+  }, []);
+
+  const saveGlossary = useCallback((glossary: GlossaryEntry[]) => {
+    updateSettings({ glossary });
+  }, [updateSettings]);
+
   // Toggle mic dropdown visibility
   const toggleMicDropdown = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
@@ -237,9 +489,9 @@ export default function Home() {
       }
     }
     
-    setSelectedMicDevice(deviceId);
+    updateSettings({ microphoneId: deviceId });
     setShowMicDropdown(false);
-  }, [audioDevices, isElectronMode]);
+  }, [audioDevices, isElectronMode, updateSettings]);
 
   // Effect to track when there's been no transcription activity for a while
   const [shouldRenderTranscription, setShouldRenderTranscription] = useState(false);
@@ -251,8 +503,8 @@ export default function Home() {
       return;
     }
     
-    // If there's text and the box isn't manually closed, we should render
-    if (progressText && !isTranscriptionClosed) {
+    // If there's text or a notice and the box isn't manually closed, we should render
+    if ((progressText || transcriptionNotice) && !isTranscriptionClosed) {
       setShouldRenderTranscription(true);
       return;
     }
@@ -269,7 +521,7 @@ export default function Home() {
     }, 500); // Shorter time for hiding when manually closed or no content
     
     return () => clearTimeout(cleanupTimer);
-  }, [isTranscribing, progressText, isTranscriptionClosed, isRecording]);
+  }, [isTranscribing, progressText, transcriptionNotice, isTranscriptionClosed, isRecording]);
 
   // Effect to handle window resizing for transcription box in Electron mode
   useEffect(() => {
@@ -282,7 +534,7 @@ export default function Home() {
     }
     
     // Determine if we need expanded mode
-    const shouldBeExpanded = (isTranscribing || !!progressText) && !isTranscriptionClosed;
+    const shouldBeExpanded = (isTranscribing || !!progressText || !!transcriptionNotice) && !isTranscriptionClosed;
     
     // Skip if same as last state
     if (lastResizeStateRef.current === shouldBeExpanded) {
@@ -325,7 +577,7 @@ export default function Home() {
         resizeTimerRef.current = null;
       }
     };
-  }, [isElectronMode, isTranscribing, progressText, isMounted, isTranscriptionClosed]);
+  }, [isElectronMode, isTranscribing, progressText, transcriptionNotice, isMounted, isTranscriptionClosed]);
 
   // Effect to ensure window stays visible in Electron mode - but with a delay to prevent flicker
   useEffect(() => {
@@ -347,8 +599,15 @@ export default function Home() {
 
     console.log("Setting up browser keyboard shortcuts");
     const cleanup = setupKeyboardShortcuts(
-      startRecordingHandler,
-      stopRecordingHandler
+      {
+        start: startRecordingHandler,
+        stop: stopRecordingHandler,
+        cancel: cancelRecordingHandler,
+        toggle: isRecording ? stopRecordingHandler : startRecordingHandler,
+        pushToTalk: startRecordingHandler,
+        pushToTalkRelease: stopRecordingHandler
+      },
+      shortcutBindings
     );
 
     // Return cleanup function
@@ -356,7 +615,7 @@ export default function Home() {
       console.log("Cleaning up browser keyboard shortcuts");
       cleanup();
     };
-  }, [isMounted, isElectronMode, startRecordingHandler, stopRecordingHandler]);
+  }, [isMounted, isElectronMode, isRecording, startRecordingHandler, stopRecordingHandler, cancelRecordingHandler, shortcutBindings]);
 
   // Setup Electron IPC listeners
   useEffect(() => {
@@ -365,16 +624,24 @@ export default function Home() {
     console.log("Setting up Electron IPC listeners");
     
     // Set up event listeners for Electron IPC
-    const removeStartListener = window.electronAPI.onStartRecording(() => {
-      console.log("Start recording message received from main process");
+    const removeStartListener = window.electronAPI.onStartRecording((options) => {
+      console.log("Start recording message received from main process", options);
+      pushToTalkHeldRef.current = !!options.pushToTalk;
       startRecordingHandler();
     });
     
     const removeStopListener = window.electronAPI.onStopRecording(() => {
       console.log("Stop recording message received from main process");
+      pushToTalkHeldRef.current = false;
       stopRecordingHandler();
     });
     
+    const removeCancelListener = window.electronAPI.onCancelRecording(() => {
+      console.log("Cancel recording message received from main process");
+      pushToTalkHeldRef.current = false;
+      cancelRecordingHandler();
+    });
+    
     // Verify shortcut registration after a delay
     let shortcutCheckTimer: NodeJS.Timeout;
     if (window.electronAPI.checkShortcutRegistration) {
@@ -399,72 +666,54 @@ export default function Home() {
       console.log("Cleaning up Electron IPC listeners");
       removeStartListener();
       removeStopListener();
+      removeCancelListener();
       if (shortcutCheckTimer) {
         clearTimeout(shortcutCheckTimer);
       }
     };
-  }, [isMounted, isElectronMode, startRecordingHandler, stopRecordingHandler]);
+  }, [isMounted, isElectronMode, startRecordingHandler, stopRecordingHandler, cancelRecordingHandler]);
+
+  // Global shortcuts only report presses, so tell the main process when
+  // the push-to-talk keys repeat or are let go while our window has focus
+  useEffect(() => {
+    if (!isMounted || !isElectronMode || !shortcutBindings.pushToTalk) return;
+    
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat && pushToTalkHeldRef.current && isAcceleratorKey(event, shortcutBindings.pushToTalk)) {
+        window.electronAPI.holdPushToTalk();
+      }
+    };
+    
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (pushToTalkHeldRef.current && isAcceleratorKey(event, shortcutBindings.pushToTalk)) {
+        console.log("Push-to-talk keys released");
+        pushToTalkHeldRef.current = false;
+        window.electronAPI.releasePushToTalk();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    window.addEventListener('keyup', handleKeyUp, { capture: true });
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+      window.removeEventListener('keyup', handleKeyUp, { capture: true });
+    };
+  }, [isMounted, isElectronMode, shortcutBindings.pushToTalk]);
 
   // Handle recording completion
   const handleRecordingComplete = useCallback((blob: Blob) => {
     console.log("Recording complete, blob size:", blob.size);
-    setAudioBlob(blob);
-  }, []);
-
-  // Handle transcription start
-  const handleTranscriptionStart = useCallback(() => {
-    console.log("Transcription started");
-    setIsTranscribing(true);
-    setProgressText("");
-    setIsTranscriptionClosed(false); // Ensure transcription is not considered closed when a new one starts
-  }, []);
-
-  // Handle transcription progress with debouncing
-  const handleTranscriptionProgress = useCallback((text: string) => {
-    // Skip if text hasn't changed significantly
-    if (text === lastProgressTextRef.current || 
-        (text.length > 0 && lastProgressTextRef.current.length > 0 && 
-         text.length - lastProgressTextRef.current.length < 5)) {
-      return;
+    if (recordingInfoRef.current) {
+      recordingInfoRef.current.stoppedAt = Date.now();
     }
-    
-    // Update the reference immediately to prevent multiple similar updates
-    lastProgressTextRef.current = text;
-    
-    // Clear any existing timer
-    if (progressUpdateTimerRef.current) {
-      clearTimeout(progressUpdateTimerRef.current);
-    }
-    
-    // Set a debounced timer to update the UI
-    progressUpdateTimerRef.current = setTimeout(() => {
-      console.log("Transcription progress (debounced):", text.substring(0, 20) + "...");
-      setProgressText(text);
-      progressUpdateTimerRef.current = null;
-    }, 200);
+    setAudioBlob(blob);
   }, []);
 
-  // Handle transcription completion
-  const handleTranscriptionComplete = useCallback((text: string) => {
-    console.log("Transcription complete:", text);
-    setProgressText(text);
-    setIsTranscribing(false);
-    
-    // In Electron mode, send to main process
-    if (isElectronMode) {
-      window.electronAPI.sendTranscriptionComplete(text);
-    } 
-    // In browser mode, use the browser's clipboard API
-    else if (isMounted && navigator.clipboard) {
-      navigator.clipboard.writeText(text)
-        .then(() => {
-          console.log("Text copied to clipboard");
-        })
-        .catch((err) => {
-          console.error("Could not copy text: ", err);
-        });
-    }
-  }, [isMounted, isElectronMode]);
+  // The audio has been used, let go of it so nothing can send it again
+  const handleTranscriberResult = useCallback((attempt: TranscriptionAttempt) => {
+    setAudioBlob(null);
+    handleTranscriptionResult(attempt);
+  }, [handleTranscriptionResult]);
 
   // Add a manual trigger for testing (mostly for browser mode)
   const handleManualStartRecording = () => {
@@ -475,18 +724,142 @@ export default function Home() {
     stopRecordingHandler();
   };
 
-  // Cleanup the timers when component unmounts
+  // Cleanup the timer when component unmounts
   useEffect(() => {
     return () => {
-      if (progressUpdateTimerRef.current) {
-        clearTimeout(progressUpdateTimerRef.current);
-      }
       if (resizeTimerRef.current) {
         clearTimeout(resizeTimerRef.current);
       }
     };
   }, []);
 
+  // Hidden input behind the file picker in browser mode
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={MEDIA_FILE_ACCEPT}
+      onChange={handleFileInputChange}
+      className="hidden"
+    />
+  );
+
+  // Subtitle and notes export once a transcript with timestamps is done
+  const transcriptExport = timedTranscript && !isTranscribing ? (
+    <TranscriptExport transcript={timedTranscript} recordedAt={recordingInfoRef.current?.startedAt} />
+  ) : undefined;
+
+  // The transcript as it streams in, or why there isn't one
+  const transcriptionBox = (
+    <ClientOnly>
+      <StreamingTranscription 
+        text={progressText} 
+        isTranscribing={isTranscribing}
+        typingSpeed={settings.typingSpeed}
+        onClose={handleCloseTranscription}
+        status={transcriptionStatus}
+        rawText={rawTranscript}
+        footer={transcriptExport}
+        notice={transcriptionNotice ?? undefined}
+      />
+    </ClientOnly>
+  );
+
+  // Records the microphone and transcribes what it hears, no visible UI
+  const recordingPipeline = (
+    <>
+      <Recorder 
+        onRecordingComplete={handleRecordingComplete}
+        isRecording={isRecording}
+        setIsRecording={setIsRecording}
+        isCancelled={isRecordingCancelled}
+        selectedMicDevice={selectedMicDevice}
+        silenceThreshold={settings.silenceThreshold}
+        vadHangoverMs={settings.vadHangoverMs}
+        autoStopSeconds={settings.autoStopSeconds}
+        trimSilence={settings.trimSilence}
+        liveTranscription={liveTranscriptionEnabled}
+        onChunkReady={handleChunkReady}
+        onAutoStop={handleAutoStop}
+      />
+      
+      {audioBlob && (
+        <Transcriber 
+          audioBlob={audioBlob}
+          onTranscriptionComplete={handleTranscriberResult}
+          onTranscriptionStart={handleTranscriptionStart}
+          onTranscriptionProgress={handleTranscriptionProgress}
+          provider={settings.provider || undefined}
+          model={settings.model || undefined}
+          localModelPath={settings.localModelPath || undefined}
+          localBinaryPath={settings.localBinaryPath || undefined}
+          language={settings.language || undefined}
+          prompt={settings.prompt || undefined}
+          temperature={settings.temperature}
+          translate={settings.translate}
+          glossary={settings.glossary}
+          timestamps={timestampGranularities}
+          onRetry={handleRetry}
+          onTranscriptionFailed={queueFailedAudio}
+        />
+      )}
+    </>
+  );
+
+  // Settings and the editors it opens, placed above the overlay or below the browser controls
+  const renderSettingsPanels = (placement: string) => (
+    <>
+      {showSettings && (
+        <div className={`absolute ${placement} z-50`}>
+          <SettingsPanel
+            settings={settings}
+            error={settingsError}
+            onChange={updateSettings}
+            onEditShortcuts={openShortcutSettings}
+            onEditGlossary={openGlossary}
+            onClose={() => setShowSettings(false)}
+            showWindowOptions={isElectronMode}
+          />
+        </div>
+      )}
+      
+      {showShortcutSettings && (
+        <div className={`absolute ${placement} z-50`}>
+          <ShortcutSettings
+            bindings={shortcutBindings}
+            checkConflicts={checkShortcutConflicts}
+            onSave={saveShortcutBindings}
+            onCaptureChange={handleShortcutCaptureChange}
+            onClose={() => setShowShortcutSettings(false)}
+          />
+        </div>
+      )}
+      
+      {showGlossary && (
+        <div className={`absolute ${placement} z-50`}>
+          <GlossaryEditor
+            glossary={settings.glossary}
+            onSave={saveGlossary}
+            onClose={() => setShowGlossary(false)}
+          />
+        </div>
+      )}
+    </>
+  );
+
+  // Failed transcriptions, placed like the settings
+  const renderQueuePanel = (placement: string) => showQueue && (
+    <div className={`absolute ${placement} z-50`}>
+      <TranscriptionQueue
+        entries={queuedTranscriptions}
+        onRetry={retryQueuedTranscription}
+        onDelete={deleteQueuedTranscription}
+        onClose={() => setShowQueue(false)}
+        disabled={isRecording || isTranscribing}
+      />
+    </div>
+  );
+
   // In Electron mode, we only show the minimal UI
   if (isElectronMode) {
     return (
@@ -495,26 +868,36 @@ export default function Home() {
         {shouldRenderTranscription && (
           <div 
             className={`fixed bottom-16 left-0 right-0 px-4 mb-2 transform transition-all duration-500 z-10
-              ${(isTranscribing || progressText) && !isTranscriptionClosed 
+              ${(isTranscribing || progressText || transcriptionNotice) && !isTranscriptionClosed 
                 ? 'opacity-100 translate-y-0' 
                 : 'opacity-0 translate-y-8 pointer-events-none'}`}
           >
             <div className="max-w-xl mx-auto transcription-container">
-              <ClientOnly>
-                <StreamingTranscription 
-                  text={progressText} 
-                  isTranscribing={isTranscribing} 
-                  typingSpeed={10}
-                  onClose={handleCloseTranscription}
-                />
-              </ClientOnly>
+              {transcriptionBox}
             </div>
           </div>
         )}
         
         {/* Status indicator - centered at the bottom */}
         <div className="fixed bottom-0 left-0 right-0 flex justify-center items-center pb-2 z-20 status-bar-container">
-          <div className="transform transition-all duration-300 ease-in-out rounded-full bg-neutral-800/80 backdrop-blur-md px-4 py-2.5 flex items-center space-x-2.5 shadow-lg border border-violet-500/20 hover:bg-neutral-800/90 hover:border-violet-500/30">
+          <div className={`transform transition-all duration-300 ease-in-out rounded-full bg-neutral-800/80 backdrop-blur-md px-4 py-2.5 flex items-center space-x-2.5 shadow-lg border hover:bg-neutral-800/90 ${isDraggingFile ? 'border-violet-400 ring-2 ring-violet-400/50' : 'border-violet-500/20 hover:border-violet-500/30'}`}>
+            {/* Drag handle to move the overlay */}
+            <div
+              onPointerDown={handleWindowDragStart}
+              onPointerUp={handleWindowDragEnd}
+              onPointerCancel={handleWindowDragEnd}
+              className="-ml-1.5 p-0.5 text-neutral-500 hover:text-neutral-300 cursor-grab active:cursor-grabbing touch-none"
+              title="Drag to move"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-3" viewBox="0 0 12 24" fill="currentColor">
+                <circle cx="3" cy="7" r="1.5" />
+                <circle cx="9" cy="7" r="1.5" />
+                <circle cx="3" cy="12" r="1.5" />
+                <circle cx="9" cy="12" r="1.5" />
+                <circle cx="3" cy="17" r="1.5" />
+                <circle cx="9" cy="17" r="1.5" />
+              </svg>
+            </div>
             {isRecording ? (
               <>
                 <span className="relative flex h-3 w-3">
@@ -532,6 +915,16 @@ export default function Home() {
                     <rect x="6" y="6" width="12" height="12" rx="2" />
                   </svg>
                 </button>
+                {/* Cancel recording button */}
+                <button 
+                  onClick={cancelRecordingHandler}
+                  className="p-1.5 hover:bg-neutral-700/50 rounded-full transition-all duration-300 group"
+                  title="Cancel recording (discard audio)"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-neutral-400 group-hover:text-neutral-200" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
               </>
             ) : isTranscribing ? (
               <>
@@ -548,7 +941,11 @@ export default function Home() {
                   <span className="animate-pulse absolute inline-flex h-full w-full rounded-full bg-violet-400 opacity-75 delay-150"></span>
                   <span className="relative inline-flex rounded-full h-3 w-3 bg-violet-500 shadow-sm shadow-violet-500/50"></span>
                 </span>
-                <p className="text-violet-400 text-sm font-medium whitespace-nowrap status-ready">VibeTranscribe Ready • Press Ctrl+Shift+R</p>
+                <p className="text-violet-400 text-sm font-medium whitespace-nowrap status-ready">
+                  {isDraggingFile
+                    ? 'Drop to transcribe'
+                    : <>VibeTranscribe Ready{shortcutBindings.start && ` • Press ${formatAccelerator(shortcutBindings.start)}`}</>}
+                </p>
                 
                 {/* Microphone dropdown container */}
                 <div className="mic-dropdown-container relative ml-2">
@@ -582,7 +979,7 @@ export default function Home() {
                   
                   {/* Microphone dropdown */}
                   {showMicDropdown && (
-                    <div className="absolute bottom-full mb-2 right-0 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden transform origin-bottom-right w-48 z-50">
+                    <div className="mic-dropdown-menu absolute bottom-full mb-2 right-0 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden transform origin-bottom-right w-48 z-50">
                       <div className="p-2 text-xs text-violet-300 border-b border-violet-500/10">
                         Select Microphone
                       </div>
@@ -621,9 +1018,119 @@ export default function Home() {
                           </div>
                         )}
                       </div>
+                      <button
+                        onClick={() => updateSettings({ liveTranscription: !liveTranscriptionEnabled })}
+                        className="w-full flex items-center justify-between px-3 py-2 text-xs text-neutral-300 border-t border-violet-500/10 hover:bg-violet-500/10 transition-colors"
+                        title="Transcribe at pauses while still recording"
+                      >
+                        <span>Live transcription</span>
+                        <span className={liveTranscriptionEnabled ? 'text-violet-300 font-medium' : 'text-neutral-500'}>
+                          {liveTranscriptionEnabled ? 'On' : 'Off'}
+                        </span>
+                      </button>
+                      {isElectronMode && (
+                        <>
+                          <button
+                            onClick={() => updateAutoPasteOptions({ enabled: !autoPasteOptions.enabled })}
+                            className="w-full flex items-center justify-between px-3 py-2 text-xs text-neutral-300 border-t border-violet-500/10 hover:bg-violet-500/10 transition-colors"
+                            title="Paste the transcription into the app that had focus when recording started"
+                          >
+                            <span>Paste into active app</span>
+                            <span className={autoPasteOptions.enabled ? 'text-violet-300 font-medium' : 'text-neutral-500'}>
+                              {autoPasteOptions.enabled ? 'On' : 'Off'}
+                            </span>
+                          </button>
+                          {autoPasteOptions.enabled && (
+                            <button
+                              onClick={() => updateAutoPasteOptions({ restoreClipboard: !autoPasteOptions.restoreClipboard })}
+                              className="w-full flex items-center justify-between px-3 py-2 text-xs text-neutral-300 hover:bg-violet-500/10 transition-colors"
+                              title="Put back what was on the clipboard after pasting"
+                            >
+                              <span>Restore clipboard</span>
+                              <span className={autoPasteOptions.restoreClipboard ? 'text-violet-300 font-medium' : 'text-neutral-500'}>
+                                {autoPasteOptions.restoreClipboard ? 'On' : 'Off'}
+                              </span>
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+                
+                {/* Refine mode switch */}
+                <RefineModeSwitch
+                  mode={settings.refineMode}
+                  onChange={(refineMode) => updateSettings({ refineMode })}
+                />
+                
+                {/* Transcribe an audio or video file */}
+                <button
+                  onClick={openFilePicker}
+                  className="p-1.5 rounded-full text-violet-400 hover:text-violet-300 hover:bg-violet-500/20 transition-all duration-300"
+                  title="Transcribe a file"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                    <polyline points="14 2 14 8 20 8" />
+                    <path d="M10 17v-5l4 2.5z" />
+                  </svg>
+                </button>
+                
+                {/* Failed transcriptions waiting to be retried */}
+                {queuedTranscriptions.length > 0 && (
+                  <div className="relative">
+                    <button
+                      onClick={toggleQueue}
+                      className={`flex items-center px-1.5 py-1 rounded-full text-xs transition-all duration-300 ${showQueue ? 'bg-amber-500/30 text-amber-200' : 'text-amber-400 hover:text-amber-300 hover:bg-amber-500/20'}`}
+                      title="Failed transcriptions"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <polyline points="23 4 23 10 17 10" />
+                        <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+                      </svg>
+                      <span className="ml-0.5">{queuedTranscriptions.length}</span>
+                    </button>
+                    
+                    {renderQueuePanel("bottom-full mb-2 right-0")}
+                  </div>
+                )}
+                
+                {/* History panel toggle */}
+                <div className="relative">
+                  <button
+                    onClick={toggleHistory}
+                    className={`p-1.5 rounded-full transition-all duration-300 ${showHistory ? 'bg-violet-500/30 text-violet-300' : 'text-violet-400 hover:text-violet-300 hover:bg-violet-500/20'}`}
+                    title="Transcription history"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <circle cx="12" cy="12" r="9" />
+                      <polyline points="12 7 12 12 15 14" />
+                    </svg>
+                  </button>
+                  
+                  {showHistory && (
+                    <div className="absolute bottom-full mb-2 right-0 z-50">
+                      <HistoryPanel onClose={() => setShowHistory(false)} />
                     </div>
                   )}
                 </div>
+                
+                {/* Settings toggle */}
+                <div className="relative">
+                  <button
+                    onClick={toggleSettings}
+                    className={`p-1.5 rounded-full transition-all duration-300 ${showSettings || showShortcutSettings || showGlossary ? 'bg-violet-500/30 text-violet-300' : 'text-violet-400 hover:text-violet-300 hover:bg-violet-500/20'}`}
+                    title="Settings"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <circle cx="12" cy="12" r="3" />
+                      <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+                    </svg>
+                  </button>
+                  
+                  {renderSettingsPanels("bottom-full mb-2 right-0")}
+                </div>
               </>
             )}
           </div>
@@ -631,21 +1138,7 @@ export default function Home() {
         
         {/* Client-only components for functionality - but no visible UI */}
         <ClientOnly>
-          <Recorder 
-            onRecordingComplete={handleRecordingComplete}
-            isRecording={isRecording}
-            setIsRecording={setIsRecording}
-            selectedMicDevice={selectedMicDevice}
-          />
-          
-          {audioBlob && (
-            <Transcriber 
-              audioBlob={audioBlob}
-              onTranscriptionComplete={handleTranscriptionComplete}
-              onTranscriptionStart={handleTranscriptionStart}
-              onTranscriptionProgress={handleTranscriptionProgress}
-            />
-          )}
+          {recordingPipeline}
           
           <Visualizer isRecording={isRecording} selectedMicDevice={selectedMicDevice} />
         </ClientOnly>
@@ -663,14 +1156,43 @@ export default function Home() {
         </h1>
         
         <div className="text-center mb-8">
-          <p className="text-neutral-400 text-sm text-center mt-4">
-            Press <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">Ctrl</kbd> +{" "}
-            <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">Shift</kbd> +{" "}
-            <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">R</kbd> to start recording
-          </p>
-          <p className="text-neutral-400 text-sm text-center mt-2">
-            Press <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">Esc</kbd> to stop recording
-          </p>
+          {shortcutBindings.start && (
+            <p className="text-neutral-400 text-sm text-center mt-4">
+              Press <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">{formatAccelerator(shortcutBindings.start)}</kbd> to start recording
+            </p>
+          )}
+          {shortcutBindings.stop && (
+            <p className="text-neutral-400 text-sm text-center mt-2">
+              Press <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">{formatAccelerator(shortcutBindings.stop)}</kbd> to stop recording
+            </p>
+          )}
+          {shortcutBindings.cancel && (
+            <p className="text-neutral-400 text-sm text-center mt-2">
+              Press <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">{formatAccelerator(shortcutBindings.cancel)}</kbd> to cancel without transcribing
+            </p>
+          )}
+          {shortcutBindings.pushToTalk && (
+            <p className="text-neutral-400 text-sm text-center mt-2">
+              Or hold <kbd className="px-2 py-1 bg-neutral-800 rounded text-xs">{formatAccelerator(shortcutBindings.pushToTalk)}</kbd> while you speak
+            </p>
+          )}
+          <div className="mt-2 flex justify-center items-center text-xs text-neutral-400">
+            <span className="mr-1">Output:</span>
+            <RefineModeSwitch
+              mode={settings.refineMode}
+              onChange={(refineMode) => updateSettings({ refineMode })}
+              direction="down"
+            />
+          </div>
+          <div className="relative mt-2 flex justify-center">
+            <button
+              onClick={toggleSettings}
+              className="text-xs text-violet-400 hover:text-violet-300 underline-offset-2 hover:underline"
+            >
+              Settings
+            </button>
+            {renderSettingsPanels("top-full mt-2")}
+          </div>
           
           {/* Microphone selection */}
           <div className="mt-4 flex justify-center items-center">
@@ -733,6 +1255,20 @@ export default function Home() {
             </div>
           </div>
           
+          {/* Live transcription toggle */}
+          <div className="mt-3 flex justify-center">
+            <label className="flex items-center text-sm text-neutral-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={liveTranscriptionEnabled}
+                onChange={(e) => updateSettings({ liveTranscription: e.target.checked })}
+                disabled={isRecording || isTranscribing}
+                className="mr-2 accent-violet-500"
+              />
+              Live transcription while recording
+            </label>
+          </div>
+          
           {/* Manual buttons for testing */}
           <div className="mt-4 flex justify-center space-x-4">
             <button
@@ -757,40 +1293,60 @@ export default function Home() {
             >
               Stop Recording
             </button>
+            <button
+              onClick={cancelRecordingHandler}
+              disabled={!isRecording}
+              className={`px-4 py-2 rounded-md ${
+                !isRecording
+                  ? "bg-neutral-700 text-neutral-400 cursor-not-allowed"
+                  : "bg-neutral-600 text-white hover:bg-neutral-500"
+              }`}
+            >
+              Cancel
+            </button>
+          </div>
+          
+          {/* Transcribe a file instead of recording */}
+          <div className={`mt-4 p-3 flex justify-center rounded-md border border-dashed transition-colors ${isDraggingFile ? 'border-violet-400 bg-violet-500/10' : 'border-neutral-700'}`}>
+            <p className="text-sm text-neutral-400">
+              {isDraggingFile ? 'Drop to transcribe' : 'Drop an audio or video file here, or '}
+              {!isDraggingFile && (
+                <button
+                  onClick={openFilePicker}
+                  disabled={isRecording || isTranscribing}
+                  className="text-violet-400 hover:text-violet-300 underline-offset-2 hover:underline disabled:text-neutral-500 disabled:no-underline"
+                >
+                  choose a file
+                </button>
+              )}
+            </p>
+            {fileInput}
           </div>
+          
+          {/* Failed transcriptions waiting to be retried */}
+          {queuedTranscriptions.length > 0 && (
+            <div className="mt-3 flex justify-center relative">
+              <button
+                onClick={toggleQueue}
+                className="text-sm text-amber-400 hover:text-amber-300 underline-offset-2 hover:underline"
+              >
+                {queuedTranscriptions.length} failed transcription{queuedTranscriptions.length === 1 ? '' : 's'} to retry
+              </button>
+              {renderQueuePanel("top-full mt-2")}
+            </div>
+          )}
         </div>
         
         {/* Transcription box */}
         {shouldRenderTranscription && (
-          <div className={`transition-opacity duration-300 ${isTranscribing || progressText ? 'opacity-100' : 'opacity-0'}`}>
-            <ClientOnly>
-              <StreamingTranscription 
-                text={progressText} 
-                isTranscribing={isTranscribing}
-                typingSpeed={10}
-                onClose={handleCloseTranscription}
-              />
-            </ClientOnly>
+          <div className={`transition-opacity duration-300 ${isTranscribing || progressText || transcriptionNotice ? 'opacity-100' : 'opacity-0'}`}>
+            {transcriptionBox}
           </div>
         )}
         
         {/* Hidden components for functionality */}
         <ClientOnly>
-          <Recorder 
-            onRecordingComplete={handleRecordingComplete}
-            isRecording={isRecording}
-            setIsRecording={setIsRecording}
-            selectedMicDevice={selectedMicDevice}
-          />
-          
-          {audioBlob && (
-            <Transcriber 
-              audioBlob={audioBlob}
-              onTranscriptionComplete={handleTranscriptionComplete}
-              onTranscriptionStart={handleTranscriptionStart}
-              onTranscriptionProgress={handleTranscriptionProgress}
-            />
-          )}
+          {recordingPipeline}
           
           <div className="mt-6">
             <Visualizer isRecording={isRecording} selectedMicDevice={selectedMicDevice} />
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  onSave: (glossary: GlossaryEntry[]) => void;
+  onClose: () => void;
+}
+
+// Variants are edited as one comma separated field
+interface DraftEntry {
+  term: string;
+  variants: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+const toDraft = (glossary: GlossaryEntry[]): DraftEntry[] =>
+  glossary.map(entry => ({ ...entry, variants: entry.variants.join(', ') }));
+
+const fromDraft = (draft: DraftEntry[]): GlossaryEntry[] =>
+  draft
+    .filter(entry => entry.term.trim())
+    .map(entry => ({
+      term: entry.term.trim(),
+      variants: entry.variants.split(',').map(variant => variant.trim()).filter(Boolean),
+      caseSensitive: entry.caseSensitive,
+      wholeWord: entry.wholeWord
+    }));
+
+export default function GlossaryEditor({ glossary, onSave, onClose }: GlossaryEditorProps) {
+  const [draft, setDraft] = useState<DraftEntry[]>(() => toDraft(glossary));
+
+  // Start over when the saved glossary changes
+  useEffect(() => {
+    setDraft(toDraft(glossary));
+  }, [glossary]);
+
+  const updateEntry = useCallback((index: number, changes: Partial<DraftEntry>) => {
+    setDraft(prev => prev.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  }, []);
+
+  const addEntry = useCallback(() => {
+    setDraft(prev => [...prev, { term: '', variants: '', caseSensitive: false, wholeWord: true }]);
+  }, []);
+
+  const removeEntry = useCallback((index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    onSave(fromDraft(draft));
+    onClose();
+  }, [draft, onClose, onSave]);
+
+  return (
+    <div className="glossary-editor-container w-72 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden">
+      <div className="flex items-center justify-between p-2 border-b border-violet-500/10">
+        <span className="text-xs text-violet-300">Glossary</span>
+        <button
+          onClick={onClose}
+          className="text-neutral-400 hover:text-white p-1 rounded-full hover:bg-neutral-700/50 transition-colors"
+          title="Close glossary"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2 max-h-80 overflow-y-auto">
+        {draft.length === 0 && (
+          <p className="text-xs text-neutral-500 text-center py-2">
+            Add names and terms the transcript keeps misspelling
+          </p>
+        )}
+        {draft.map((entry, index) => (
+          <div key={index} className="space-y-1 p-1.5 rounded border border-violet-500/10">
+            <div className="flex items-center">
+              <input
+                type="text"
+                value={entry.term}
+                onChange={(e) => updateEntry(index, { term: e.target.value })}
+                placeholder="Correct spelling, e.g. VibeTranscribe"
+                className="flex-1 min-w-0 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+              />
+              <button
+                onClick={() => removeEntry(index)}
+                className="ml-1 text-[10px] text-neutral-500 hover:text-red-400"
+                title="Remove entry"
+              >
+                Remove
+              </button>
+            </div>
+            <input
+              type="text"
+              value={entry.variants}
+              onChange={(e) => updateEntry(index, { variants: e.target.value })}
+              placeholder="Replaces, e.g. vibe transcribe, vibetranscribe"
+              className="w-full px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+              title="Comma separated spellings to replace with the term"
+            />
+            <div className="flex items-center space-x-3">
+              <label className="flex items-center text-[10px] text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={entry.caseSensitive}
+                  onChange={(e) => updateEntry(index, { caseSensitive: e.target.checked })}
+                  className="mr-1 accent-violet-500"
+                />
+                Match case
+              </label>
+              <label className="flex items-center text-[10px] text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={entry.wholeWord}
+                  onChange={(e) => updateEntry(index, { wholeWord: e.target.checked })}
+                  className="mr-1 accent-violet-500"
+                />
+                Whole words only
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between p-2 border-t border-violet-500/10">
+        <button
+          onClick={addEntry}
+          className="px-2 py-1 text-xs text-violet-400 hover:text-violet-300"
+        >
+          Add term
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 text-xs rounded bg-violet-600 text-white hover:bg-violet-700 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+// Format a timestamp as a short time for today, or a date for older entries
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Format a recording duration as m:ss
+function formatDuration(durationMs?: number): string | null {
+  if (!durationMs) return null;
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function HistoryPanel({ onClose }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<TranscriptionHistoryEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Load entries matching the current search
+  const loadEntries = useCallback(async () => {
+    if (!window.electronAPI) return;
+
+    try {
+      const results = await window.electronAPI.searchHistory(query);
+      setEntries(results);
+    } catch (error) {
+      console.error("Error loading transcription history:", error);
+    }
+  }, [query]);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const searchTimer = setTimeout(loadEntries, 200);
+    return () => clearTimeout(searchTimer);
+  }, [loadEntries]);
+
+  // Refresh when a new transcription is stored or one is deleted
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onHistoryChanged(() => {
+      loadEntries();
+    });
+  }, [loadEntries]);
+
+  // Clear the "Copied" marker after a moment
+  useEffect(() => {
+    if (!copiedId) return;
+    const copiedTimer = setTimeout(() => setCopiedId(null), 1500);
+    return () => clearTimeout(copiedTimer);
+  }, [copiedId]);
+
+  const handleCopy = useCallback(async (id: string, raw = false) => {
+    const copied = await window.electronAPI.copyHistoryEntry(id, raw);
+    if (copied) {
+      setCopiedId(raw ? `${id}:raw` : id);
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (id: string) => {
+    await window.electronAPI.deleteHistoryEntry(id);
+  }, []);
+
+  return (
+    <div className="history-panel-container w-72 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden">
+      <div className="flex items-center justify-between p-2 border-b border-violet-500/10">
+        <span className="text-xs text-violet-300">History</span>
+        <button
+          onClick={onClose}
+          className="text-neutral-400 hover:text-white p-1 rounded-full hover:bg-neutral-700/50 transition-colors"
+          title="Close history"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <div className="p-2 border-b border-violet-500/10">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search transcriptions..."
+          className="w-full px-2 py-1 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+        />
+      </div>
+      <div className="max-h-60 overflow-y-auto">
+        {entries.length > 0 ? (
+          <ul className="py-1">
+            {entries.map((entry) => (
+              <li key={entry.id} className="group px-2 py-1.5 hover:bg-violet-500/10 transition-colors">
+                <div className="flex items-center justify-between text-[10px] text-neutral-500 mb-0.5">
+                  <span className="truncate">
+                    {[formatTimestamp(entry.timestamp), formatDuration(entry.durationMs), entry.fileName ?? entry.microphone]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </span>
+                  <span className="flex items-center flex-shrink-0 ml-2">
+                    <button
+                      onClick={() => handleCopy(entry.id)}
+                      className="px-1 text-violet-400 hover:text-violet-300"
+                      title="Copy to clipboard"
+                    >
+                      {copiedId === entry.id ? 'Copied' : 'Copy'}
+                    </button>
+                    {entry.rawText && (
+                      <button
+                        onClick={() => handleCopy(entry.id, true)}
+                        className="px-1 text-violet-400 hover:text-violet-300"
+                        title="Copy the transcript before it was refined"
+                      >
+                        {copiedId === `${entry.id}:raw` ? 'Copied' : 'Raw'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(entry.id)}
+                      className="px-1 text-neutral-500 hover:text-red-400"
+                      title="Delete entry"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-300 line-clamp-2 cursor-pointer" onClick={() => handleCopy(entry.id)}>
+                  {entry.text}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="p-3 text-xs text-neutral-400 text-center">
+            {query ? 'No matching transcriptions' : 'No transcriptions yet'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
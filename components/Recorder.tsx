@@ -1,32 +1,112 @@
 "use client";
 
 import { useRef, useEffect, useCallback, useState } from "react";
+import { VadOptions, VoiceActivityDetector } from "@/utils/voiceActivity";
+import { trimSilence } from "@/utils/silenceTrimming";
 
 interface RecorderProps {
   onRecordingComplete: (audioBlob: Blob) => void;
   isRecording: boolean;
   setIsRecording: (isRecording: boolean) => void;
+  isCancelled?: boolean; // When recording stops with this set, the audio is thrown away
   selectedMicDevice?: string;
+  silenceThreshold?: number; // Quietest input that can be speech, in dB above -60 dBFS
+  vadHangoverMs?: number; // Pause between words still counted as speech
+  autoStopSeconds?: number; // Call onAutoStop after this much silence following speech, 0 for never
+  trimSilence?: boolean; // Cut silence before and after the words of a recording
+  liveTranscription?: boolean; // Emit rolling chunks through onChunkReady instead of one blob
+  onChunkReady?: (chunk: Blob, isFinal: boolean) => void;
+  onAutoStop?: () => void; // The speaker has gone quiet, time to stop recording
 }
 
+// Audio recorded by one MediaRecorder instance
+interface RecordingSegment {
+  chunks: Blob[];
+  hasSpeech: boolean;
+  startedAt: number;
+}
+
+// Live mode cuts a chunk at the first pause once it is long enough, or when it gets too long
+const LIVE_CHUNK_MIN_MS = 4000;
+const LIVE_CHUNK_MAX_MS = 30000;
+const LIVE_CHUNK_PAUSE_MS = 1000;
+
+// How often the microphone is checked for speech
+const VAD_POLL_MS = 100;
+
+// The silence threshold setting is in dB above this level
+const SILENCE_THRESHOLD_BASE_DB = -60;
+
 // Define WebKit AudioContext type for cross-browser compatibility
 interface WebkitWindow extends Window {
   webkitAudioContext: typeof AudioContext;
 }
 
-export default function Recorder({ onRecordingComplete, isRecording, setIsRecording, selectedMicDevice }: RecorderProps) {
+export default function Recorder({
+  onRecordingComplete,
+  isRecording,
+  setIsRecording,
+  isCancelled = false,
+  selectedMicDevice,
+  silenceThreshold = 10,
+  vadHangoverMs = 300,
+  autoStopSeconds = 0,
+  trimSilence: shouldTrimSilence = true,
+  liveTranscription = false,
+  onChunkReady,
+  onAutoStop
+}: RecorderProps) {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const currentSegmentRef = useRef<RecordingSegment | null>(null);
+  const isLiveRecordingRef = useRef<boolean>(false);
+  const rotateSegmentRef = useRef<(() => void) | null>(null);
+  const isDiscardingRef = useRef<boolean>(false);
   const streamRef = useRef<MediaStream | null>(null);
   const [isMounted, setIsMounted] = useState(false);
   
   // Sound detection metrics
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const audioDataRef = useRef<Uint8Array | null>(null);
+  const audioDataRef = useRef<Float32Array | null>(null);
   const hasMeaningfulAudioRef = useRef<boolean>(false);
-  const silentFramesCountRef = useRef<number>(0);
+  const voiceActivityRef = useRef<VoiceActivityDetector | null>(null);
+  const hasAutoStoppedRef = useRef<boolean>(false);
   const audioLevelCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  
+  // Read by the level check and the stop handler, so changes apply without a new recording
+  const vadOptionsRef = useRef<Omit<VadOptions, 'sampleRate'>>({});
+  const autoStopMsRef = useRef<number>(0);
+  const trimSilenceRef = useRef<boolean>(shouldTrimSilence);
+  const onAutoStopRef = useRef(onAutoStop);
+  
+  // Read when a recording starts and while it runs, so changing them doesn't start another one
+  const selectedMicDeviceRef = useRef(selectedMicDevice);
+  const liveTranscriptionRef = useRef(liveTranscription);
+  const onChunkReadyRef = useRef(onChunkReady);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  const setIsRecordingRef = useRef(setIsRecording);
+  
+  // Set while recording, so only the start of a recording starts the MediaRecorder
+  const wasRecordingRef = useRef(false);
+  
+  useEffect(() => {
+    vadOptionsRef.current = {
+      minEnergyDb: SILENCE_THRESHOLD_BASE_DB + silenceThreshold,
+      hangoverMs: vadHangoverMs
+    };
+    autoStopMsRef.current = autoStopSeconds * 1000;
+    trimSilenceRef.current = shouldTrimSilence;
+    onAutoStopRef.current = onAutoStop;
+    selectedMicDeviceRef.current = selectedMicDevice;
+    liveTranscriptionRef.current = liveTranscription;
+    onChunkReadyRef.current = onChunkReady;
+    onRecordingCompleteRef.current = onRecordingComplete;
+    setIsRecordingRef.current = setIsRecording;
+  }, [
+    silenceThreshold, vadHangoverMs, autoStopSeconds, shouldTrimSilence, onAutoStop,
+    selectedMicDevice, liveTranscription, onChunkReady, onRecordingComplete, setIsRecording
+  ]);
 
   // Set isMounted to true once component mounts
   useEffect(() => {
@@ -53,7 +133,7 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
     
     // Reset audio detection state
     hasMeaningfulAudioRef.current = false;
-    silentFramesCountRef.current = 0;
+    hasAutoStoppedRef.current = false;
     
     try {
       // Create audio context for level monitoring
@@ -62,39 +142,57 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
       
       // Create analyzer
       analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 256;
+      analyserRef.current.fftSize = 2048;
       
       // Create source from stream
       const source = audioContextRef.current.createMediaStreamSource(stream);
       source.connect(analyserRef.current);
       
       // Create data array for analysis
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      audioDataRef.current = new Uint8Array(bufferLength);
+      audioDataRef.current = new Float32Array(analyserRef.current.fftSize);
+      voiceActivityRef.current = new VoiceActivityDetector({
+        ...vadOptionsRef.current,
+        sampleRate: audioContextRef.current.sampleRate
+      });
       
       // Start periodic checking
       audioLevelCheckIntervalRef.current = setInterval(() => {
-        if (!analyserRef.current || !audioDataRef.current) return;
+        if (!analyserRef.current || !audioDataRef.current || !voiceActivityRef.current) return;
         
-        // Get current audio data
-        analyserRef.current.getByteFrequencyData(audioDataRef.current);
+        // The latest samples stand for the whole interval since the last check
+        analyserRef.current.getFloatTimeDomainData(audioDataRef.current);
+        const decision = voiceActivityRef.current.process(audioDataRef.current, VAD_POLL_MS);
         
-        // Calculate average level
-        const sum = audioDataRef.current.reduce((acc, val) => acc + val, 0);
-        const avg = sum / audioDataRef.current.length;
+        if (decision.isSpeech) {
+          hasMeaningfulAudioRef.current = true;
+          if (currentSegmentRef.current) {
+            currentSegmentRef.current.hasSpeech = true;
+          }
+        }
         
-        // Check if we have meaningful audio (adjust threshold as needed)
-        const threshold = 10; // Threshold for considering meaningful audio
+        // Stop once the speaker has been quiet long enough after saying something
+        const autoStopMs = autoStopMsRef.current;
+        if (autoStopMs > 0 && hasMeaningfulAudioRef.current && !hasAutoStoppedRef.current &&
+            decision.silenceMs >= autoStopMs) {
+          console.log(`No speech for ${autoStopMs}ms, stopping the recording`);
+          hasAutoStoppedRef.current = true;
+          onAutoStopRef.current?.();
+        }
         
-        if (avg > threshold) {
-          hasMeaningfulAudioRef.current = true;
-          silentFramesCountRef.current = 0;
-          // console.log("Meaningful audio detected, level:", avg.toFixed(2));
-        } else {
-          silentFramesCountRef.current++;
-          // console.log("Silent frame detected, count:", silentFramesCountRef.current);
+        // In live mode, hand over the current chunk at a pause in speech
+        const segment = currentSegmentRef.current;
+        if (isLiveRecordingRef.current && segment) {
+          const segmentAge = Date.now() - segment.startedAt;
+          const isPause = segment.hasSpeech &&
+            !decision.isSpeech &&
+            decision.silenceMs >= LIVE_CHUNK_PAUSE_MS &&
+            segmentAge >= LIVE_CHUNK_MIN_MS;
+          
+          if (isPause || segmentAge >= LIVE_CHUNK_MAX_MS) {
+            rotateSegmentRef.current?.();
+          }
         }
-      }, 500);
+      }, VAD_POLL_MS);
     } catch (error) {
       console.error("Error setting up audio level monitoring:", error);
     }
@@ -114,6 +212,7 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
     
     analyserRef.current = null;
     audioDataRef.current = null;
+    voiceActivityRef.current = null;
   }, []);
 
   // Define startRecording as a useCallback to avoid recreating it on every render
@@ -131,12 +230,14 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
     stopAudioLevelCheck();
     audioChunksRef.current = [];
     hasMeaningfulAudioRef.current = false;
+    isDiscardingRef.current = false;
+    const selectedMicDevice = selectedMicDeviceRef.current;
     
     try {
       // Ensure we're on the client side
       if (typeof window === 'undefined' || !navigator.mediaDevices) {
         console.error("MediaDevices API not available");
-        setIsRecording(false);
+        setIsRecordingRef.current(false);
         return;
       }
       
@@ -199,37 +300,46 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
       // Start monitoring audio levels
       startAudioLevelCheck(stream);
       
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
-      mediaRecorderRef.current = mediaRecorder;
-      
-      console.log("MediaRecorder created with mimeType:", mediaRecorder.mimeType);
+      const isLive = liveTranscriptionRef.current && !!onChunkReadyRef.current;
+      isLiveRecordingRef.current = isLive;
       
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          console.log("Received audio chunk of size:", event.data.size);
-          audioChunksRef.current.push(event.data);
-        } else {
-          console.warn("Received empty audio chunk");
+      // Release media resources once the last recorder has stopped
+      const releaseStream = () => {
+        if (streamRef.current) {
+          streamRef.current.getTracks().forEach(track => track.stop());
+          streamRef.current = null;
         }
       };
       
-      mediaRecorder.onstop = () => {
+      // Handle the end of the whole recording
+      const handleRecordingStopped = (segment: RecordingSegment) => {
         console.log("MediaRecorder stopped, creating audio blob...");
-        console.log("Number of audio chunks:", audioChunksRef.current.length);
+        console.log("Number of audio chunks:", segment.chunks.length);
         
         // Stop audio level monitoring
         stopAudioLevelCheck();
+        currentSegmentRef.current = null;
+        rotateSegmentRef.current = null;
         
-        if (audioChunksRef.current.length === 0) {
+        if (isLive) {
+          // Always send a final chunk so the consumer knows the recording ended
+          const finalChunk = segment.hasSpeech
+            ? new Blob(segment.chunks, { type: 'audio/webm' })
+            : new Blob([], { type: 'audio/webm' });
+          console.log("Live recording finished, final chunk size:", finalChunk.size);
+          onChunkReadyRef.current?.(finalChunk, true);
+          releaseStream();
+          return;
+        }
+        
+        if (segment.chunks.length === 0) {
           console.error("No audio chunks recorded");
-          setIsRecording(false);
+          setIsRecordingRef.current(false);
           return;
         }
         
         // Create the audio blob
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const audioBlob = new Blob(segment.chunks, { type: 'audio/webm' });
         console.log("Audio blob created, size:", audioBlob.size);
         
         // Check if we had meaningful audio and the blob has a reasonable size
@@ -238,29 +348,102 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
         if (!hasMeaningfulAudioRef.current || audioBlob.size < minBlobSize) {
           console.warn("No meaningful audio detected during recording. Skipping transcription.");
           // We could show a message to the user here
-          onRecordingComplete(new Blob([], { type: 'audio/webm' })); // Empty blob as a signal
+          onRecordingCompleteRef.current(new Blob([], { type: 'audio/webm' })); // Empty blob as a signal
+        } else if (audioBlob.size > 0 && trimSilenceRef.current) {
+          console.log("Meaningful audio detected, trimming silence before transcription");
+          trimSilence(audioBlob, vadOptionsRef.current)
+            .catch((error) => {
+              console.error("Could not trim silence, sending the whole recording:", error);
+              return audioBlob;
+            })
+            .then(onRecordingCompleteRef.current);
         } else if (audioBlob.size > 0) {
           console.log("Meaningful audio detected, proceeding with transcription");
-          onRecordingComplete(audioBlob);
+          onRecordingCompleteRef.current(audioBlob);
         } else {
           console.error("Created audio blob is empty");
         }
         
-        // Release media resources
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach(track => track.stop());
-          streamRef.current = null;
-        }
+        releaseStream();
+      };
+      
+      // Each MediaRecorder produces a self-contained file, so live mode
+      // starts a new one for every chunk instead of slicing a single stream
+      const createMediaRecorder = () => {
+        const recorder = new MediaRecorder(stream, {
+          mimeType: 'audio/webm;codecs=opus'
+        });
+        const segment: RecordingSegment = { chunks: [], hasSpeech: false, startedAt: Date.now() };
+        currentSegmentRef.current = segment;
+        audioChunksRef.current = segment.chunks;
+        
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            console.log("Received audio chunk of size:", event.data.size);
+            segment.chunks.push(event.data);
+          } else {
+            console.warn("Received empty audio chunk");
+          }
+        };
+        
+        recorder.onstop = () => {
+          // A cancelled recording produces nothing, not even a live chunk
+          if (isDiscardingRef.current) {
+            segment.chunks.length = 0;
+            if (recorder === mediaRecorderRef.current) {
+              console.log("Recording cancelled, audio discarded");
+              stopAudioLevelCheck();
+              currentSegmentRef.current = null;
+              rotateSegmentRef.current = null;
+              audioChunksRef.current = [];
+              releaseStream();
+            }
+            return;
+          }
+          
+          // A recorder replaced by rotation only hands over its chunk
+          if (recorder !== mediaRecorderRef.current) {
+            if (segment.hasSpeech && segment.chunks.length > 0) {
+              const chunk = new Blob(segment.chunks, { type: 'audio/webm' });
+              console.log("Live chunk ready, size:", chunk.size);
+              onChunkReadyRef.current?.(chunk, false);
+            } else {
+              console.log("Dropping live chunk without speech");
+            }
+            return;
+          }
+          
+          handleRecordingStopped(segment);
+        };
+        
+        return recorder;
       };
       
+      // Start the next chunk before stopping the current one so no audio falls in between
+      rotateSegmentRef.current = isLive ? () => {
+        const previousRecorder = mediaRecorderRef.current;
+        if (!previousRecorder || previousRecorder.state !== 'recording') return;
+        
+        const nextRecorder = createMediaRecorder();
+        mediaRecorderRef.current = nextRecorder;
+        nextRecorder.start(1000);
+        
+        previousRecorder.stop();
+      } : null;
+      
+      const mediaRecorder = createMediaRecorder();
+      mediaRecorderRef.current = mediaRecorder;
+      
+      console.log("MediaRecorder created with mimeType:", mediaRecorder.mimeType);
+      
       // Set a data available interval (e.g., every 1 second)
       mediaRecorder.start(1000);
       console.log("MediaRecorder started");
     } catch (error) {
       console.error("Error accessing microphone:", error);
-      setIsRecording(false);
+      setIsRecordingRef.current(false);
     }
-  }, [onRecordingComplete, setIsRecording, isMounted, selectedMicDevice, startAudioLevelCheck, stopAudioLevelCheck]);
+  }, [isMounted, startAudioLevelCheck, stopAudioLevelCheck]);
 
   // Define stopRecording as a useCallback
   const stopRecording = useCallback(() => {
@@ -273,15 +456,32 @@ export default function Recorder({ onRecordingComplete, isRecording, setIsRecord
     }
   }, []);
 
+  // Stop recording and throw the audio away instead of handing it over
+  const cancelRecording = useCallback(() => {
+    console.log("Cancelling recording...");
+    isDiscardingRef.current = true;
+    audioChunksRef.current = [];
+    stopRecording();
+  }, [stopRecording]);
+
   useEffect(() => {
     if (!isMounted) return;
     
+    const wasRecording = wasRecordingRef.current;
+    wasRecordingRef.current = isRecording;
+    
     if (isRecording) {
-      startRecording();
+      if (!wasRecording) {
+        startRecording();
+      }
     } else if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
-      stopRecording();
+      if (isCancelled) {
+        cancelRecording();
+      } else {
+        stopRecording();
+      }
     }
-  }, [isRecording, startRecording, stopRecording, isMounted]);
+  }, [isRecording, isCancelled, startRecording, stopRecording, cancelRecording, isMounted]);
 
   // This component doesn't render anything visible
   return null;
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { REFINE_PRESETS } from "@/lib/refinement/presets";
+
+interface RefineModeSwitchProps {
+  mode: string; // Preset id, empty when transcripts are copied as they are
+  onChange: (mode: string) => void;
+  direction?: 'up' | 'down'; // Where the list opens, up from the status bar by default
+}
+
+const MODES = [{ id: '', label: 'Raw' }, ...REFINE_PRESETS.map(({ id, label }) => ({ id, label }))];
+
+export default function RefineModeSwitch({ mode, onChange, direction = 'up' }: RefineModeSwitchProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const current = MODES.find(option => option.id === mode) ?? MODES[0];
+
+  // Close the list when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="refine-mode-container relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(prev => !prev);
+        }}
+        className={`px-2 py-1 text-xs rounded-full whitespace-nowrap transition-all duration-300 ${
+          mode ? 'bg-violet-500/30 text-violet-200' : 'text-violet-400 hover:text-violet-300 hover:bg-violet-500/20'
+        }`}
+        title="How the transcript is rewritten before it is copied"
+      >
+        {current.label}
+      </button>
+
+      {isOpen && (
+        <ul
+          className={`absolute ${direction === 'up' ? 'bottom-full mb-2' : 'top-full mt-2'} right-0 z-50 w-36 py-1 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20`}
+        >
+          {MODES.map(option => (
+            <li key={option.id}>
+              <button
+                onClick={() => {
+                  onChange(option.id);
+                  setIsOpen(false);
+                }}
+                className={`w-full px-3 py-1 text-xs text-left transition-colors ${
+                  option.id === mode ? 'text-violet-300 bg-violet-500/20' : 'text-neutral-300 hover:bg-violet-500/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,477 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { REFINE_PRESETS } from "@/lib/refinement/presets";
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  error?: string | null; // Why the last change wasn't saved, e.g. refused shortcuts
+  onChange: (changes: AppSettingsChanges) => void;
+  onEditShortcuts: () => void;
+  onEditGlossary: () => void;
+  onClose: () => void;
+  showWindowOptions?: boolean; // Where the desktop overlay sits, not shown in the browser
+}
+
+const PROVIDER_OPTIONS = [
+  { id: '', label: 'Server default' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'self-hosted', label: 'Self-hosted' },
+  { id: 'local', label: 'Local (offline)' }
+];
+
+// OpenAI only streams text back from the gpt-4o transcription models, whisper-1
+// answers once the whole recording is done. The server default is usually OpenAI.
+function isOpenAiBatchModel(provider: string, model: string): boolean {
+  return (provider === '' || provider === 'openai') && !model.startsWith('gpt-4o');
+}
+
+// Where the overlay goes on a display it hasn't been dragged on
+const WINDOW_ANCHOR_OPTIONS: { id: AppSettings['windowAnchor']; label: string }[] = [
+  { id: 'bottom-center', label: 'Bottom centre' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'near-caret', label: 'Near the pointer' }
+];
+
+// Spoken languages offered for transcription, by ISO-639-1 code
+const LANGUAGE_OPTIONS = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'en', label: 'English' },
+  { code: 'de', label: 'German' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'sv', label: 'Swedish' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'uk', label: 'Ukrainian' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' }
+];
+
+// Languages with built-in voice commands, see utils/voiceCommands.ts
+const VOICE_COMMAND_LANGUAGE_OPTIONS = [
+  { code: '', label: 'Same as speech' },
+  { code: 'en', label: 'English' },
+  { code: 'de', label: 'German' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' }
+];
+
+export default function SettingsPanel({
+  settings,
+  error,
+  onChange,
+  onEditShortcuts,
+  onEditGlossary,
+  onClose,
+  showWindowOptions = false
+}: SettingsPanelProps) {
+  // Text fields are typed, so only save them once editing is done
+  const [modelDraft, setModelDraft] = useState(settings.model);
+  const [promptDraft, setPromptDraft] = useState(settings.prompt);
+  const [refineModelDraft, setRefineModelDraft] = useState(settings.refineModel);
+  const [localModelPathDraft, setLocalModelPathDraft] = useState(settings.localModelPath);
+  const [localBinaryPathDraft, setLocalBinaryPathDraft] = useState(settings.localBinaryPath);
+
+  useEffect(() => {
+    setModelDraft(settings.model);
+  }, [settings.model]);
+
+  useEffect(() => {
+    setPromptDraft(settings.prompt);
+  }, [settings.prompt]);
+
+  useEffect(() => {
+    setRefineModelDraft(settings.refineModel);
+  }, [settings.refineModel]);
+
+  useEffect(() => {
+    setLocalModelPathDraft(settings.localModelPath);
+  }, [settings.localModelPath]);
+
+  useEffect(() => {
+    setLocalBinaryPathDraft(settings.localBinaryPath);
+  }, [settings.localBinaryPath]);
+
+  const commitModel = () => {
+    if (modelDraft.trim() !== settings.model) {
+      onChange({ model: modelDraft.trim() });
+    }
+  };
+
+  const commitPrompt = () => {
+    if (promptDraft !== settings.prompt) {
+      onChange({ prompt: promptDraft });
+    }
+  };
+
+  const commitRefineModel = () => {
+    if (refineModelDraft.trim() !== settings.refineModel) {
+      onChange({ refineModel: refineModelDraft.trim() });
+    }
+  };
+
+  const commitLocalPaths = () => {
+    if (localModelPathDraft.trim() !== settings.localModelPath || localBinaryPathDraft.trim() !== settings.localBinaryPath) {
+      onChange({ localModelPath: localModelPathDraft.trim(), localBinaryPath: localBinaryPathDraft.trim() });
+    }
+  };
+
+  return (
+    <div className="settings-panel-container w-72 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden">
+      <div className="flex items-center justify-between p-2 border-b border-violet-500/10">
+        <span className="text-xs text-violet-300">Settings</span>
+        <button
+          onClick={onClose}
+          className="text-neutral-400 hover:text-white p-1 rounded-full hover:bg-neutral-700/50 transition-colors"
+          title="Close settings"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-2 space-y-3 max-h-80 overflow-y-auto">
+        {error && (
+          <p className="text-[10px] text-red-400">{error}</p>
+        )}
+        {/* Transcription */}
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-500">Transcription</p>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Provider
+            <select
+              value={settings.provider}
+              onChange={(e) => onChange({ provider: e.target.value })}
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Model
+            <input
+              type="text"
+              value={modelDraft}
+              onChange={(e) => setModelDraft(e.target.value)}
+              onBlur={commitModel}
+              onKeyDown={(e) => e.key === 'Enter' && commitModel()}
+              placeholder="Provider default"
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+            />
+          </label>
+          {isOpenAiBatchModel(settings.provider, settings.model) && (
+            <p className="text-[10px] text-neutral-500">
+              Text shows up as you speak only with gpt-4o-transcribe or gpt-4o-mini-transcribe
+            </p>
+          )}
+          {settings.provider === 'local' && (
+            <>
+              <label className="flex items-center justify-between text-xs text-neutral-300">
+                Model file
+                <input
+                  type="text"
+                  value={localModelPathDraft}
+                  onChange={(e) => setLocalModelPathDraft(e.target.value)}
+                  onBlur={commitLocalPaths}
+                  onKeyDown={(e) => e.key === 'Enter' && commitLocalPaths()}
+                  placeholder="Server default"
+                  title="Absolute path of a ggml .bin model"
+                  className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+                />
+              </label>
+              <label className="flex items-center justify-between text-xs text-neutral-300">
+                whisper.cpp
+                <input
+                  type="text"
+                  value={localBinaryPathDraft}
+                  onChange={(e) => setLocalBinaryPathDraft(e.target.value)}
+                  onBlur={commitLocalPaths}
+                  onKeyDown={(e) => e.key === 'Enter' && commitLocalPaths()}
+                  placeholder="Server default"
+                  title="Absolute path of whisper-cli"
+                  className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+                />
+              </label>
+            </>
+          )}
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Language
+            <select
+              value={settings.language}
+              onChange={(e) => onChange({ language: e.target.value })}
+              disabled={settings.translate}
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50 disabled:opacity-50"
+              title={settings.translate ? 'The spoken language is detected when translating' : 'Language you speak'}
+            >
+              {LANGUAGE_OPTIONS.map(option => (
+                <option key={option.code} value={option.code}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Translate to English
+            <input
+              type="checkbox"
+              checked={settings.translate}
+              onChange={(e) => onChange({ translate: e.target.checked })}
+              className="accent-violet-500"
+            />
+          </label>
+          <label className="block text-xs text-neutral-300">
+            Prompt
+            <textarea
+              value={promptDraft}
+              onChange={(e) => setPromptDraft(e.target.value)}
+              onBlur={commitPrompt}
+              rows={2}
+              placeholder="Context or spelling hints, e.g. a previous sentence"
+              className="mt-1 w-full px-1.5 py-1 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50 resize-none"
+            />
+          </label>
+          <label className="block text-xs text-neutral-300">
+            <span className="flex items-center justify-between">
+              Temperature
+              <span className="text-neutral-500">{settings.temperature.toFixed(1)}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+              title="Higher values give more varied output, 0 is the most deterministic"
+            />
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Timestamps
+            <select
+              value={settings.timestamps}
+              onChange={(e) => onChange({ timestamps: e.target.value as AppSettings['timestamps'] })}
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+              title="Keep timestamps to save recordings as subtitles or notes. Not streamed, and OpenAI needs whisper-1"
+            >
+              <option value="">Off</option>
+              <option value="segment">Sentences</option>
+              <option value="word">Words (slower)</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Live transcription
+            <input
+              type="checkbox"
+              checked={settings.liveTranscription}
+              onChange={(e) => onChange({ liveTranscription: e.target.checked })}
+              className="accent-violet-500"
+            />
+          </label>
+        </div>
+
+        {/* Voice commands */}
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-500">Voice commands</p>
+          <label
+            className="flex items-center justify-between text-xs text-neutral-300"
+            title='Say "new line", "comma", "open quote", "bullet point" or "all caps ... end caps"'
+          >
+            Spoken formatting
+            <input
+              type="checkbox"
+              checked={settings.voiceCommands.enabled}
+              onChange={(e) => onChange({ voiceCommands: { enabled: e.target.checked } })}
+              className="accent-violet-500"
+            />
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Command language
+            <select
+              value={settings.voiceCommands.language}
+              onChange={(e) => onChange({ voiceCommands: { language: e.target.value } })}
+              disabled={!settings.voiceCommands.enabled}
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50 disabled:opacity-50"
+            >
+              {VOICE_COMMAND_LANGUAGE_OPTIONS.map(option => (
+                <option key={option.code} value={option.code}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Refinement */}
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-500">Refinement</p>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Mode
+            <select
+              value={settings.refineMode}
+              onChange={(e) => onChange({ refineMode: e.target.value })}
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+              title="Rewrite the transcript with a language model before it is copied"
+            >
+              <option value="">Off (raw transcript)</option>
+              {REFINE_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Model
+            <input
+              type="text"
+              value={refineModelDraft}
+              onChange={(e) => setRefineModelDraft(e.target.value)}
+              onBlur={commitRefineModel}
+              onKeyDown={(e) => e.key === 'Enter' && commitRefineModel()}
+              placeholder="Server default"
+              className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 placeholder-neutral-500 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+            />
+          </label>
+        </div>
+
+        {/* Recording */}
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-500">Recording</p>
+          <label className="block text-xs text-neutral-300">
+            <span className="flex items-center justify-between">
+              Silence threshold
+              <span className="text-neutral-500">{settings.silenceThreshold}</span>
+            </span>
+            <input
+              type="range"
+              min={1}
+              max={50}
+              value={settings.silenceThreshold}
+              onChange={(e) => onChange({ silenceThreshold: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+              title="Input level below which the microphone counts as silent"
+            />
+          </label>
+          <label className="block text-xs text-neutral-300">
+            <span className="flex items-center justify-between">
+              Pause between words
+              <span className="text-neutral-500">{settings.vadHangoverMs} ms</span>
+            </span>
+            <input
+              type="range"
+              min={100}
+              max={2000}
+              step={50}
+              value={settings.vadHangoverMs}
+              onChange={(e) => onChange({ vadHangoverMs: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+              title="Silence that still counts as part of the speech"
+            />
+          </label>
+          <label className="block text-xs text-neutral-300">
+            <span className="flex items-center justify-between">
+              Stop after silence
+              <span className="text-neutral-500">{settings.autoStopSeconds ? `${settings.autoStopSeconds} s` : 'Off'}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={30}
+              value={settings.autoStopSeconds}
+              onChange={(e) => onChange({ autoStopSeconds: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+              title="Stop recording once you have been quiet this long after speaking"
+            />
+          </label>
+          <label className="flex items-center justify-between text-xs text-neutral-300">
+            Trim silence
+            <input
+              type="checkbox"
+              checked={settings.trimSilence}
+              onChange={(e) => onChange({ trimSilence: e.target.checked })}
+              className="accent-violet-500"
+            />
+          </label>
+        </div>
+
+        {/* Display */}
+        <div className="space-y-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-neutral-500">Display</p>
+          <label className="block text-xs text-neutral-300">
+            <span className="flex items-center justify-between">
+              Typing speed
+              <span className="text-neutral-500">{settings.typingSpeed} ms/char</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={50}
+              value={settings.typingSpeed}
+              onChange={(e) => onChange({ typingSpeed: Number(e.target.value) })}
+              className="w-full accent-violet-500"
+            />
+          </label>
+          {showWindowOptions && (
+            <>
+              <label className="flex items-center justify-between text-xs text-neutral-300">
+                Position
+                <select
+                  value={settings.windowAnchor}
+                  // A new anchor applies everywhere, so forget where the overlay was dragged to
+                  onChange={(e) => onChange({
+                    windowAnchor: e.target.value as AppSettings['windowAnchor'],
+                    windowPositions: []
+                  })}
+                  className="w-36 px-1.5 py-0.5 text-xs bg-neutral-900/60 text-neutral-200 rounded border border-violet-500/20 focus:outline-none focus:border-violet-500/50"
+                  title="Where the overlay sits until you drag it somewhere else"
+                >
+                  {WINDOW_ANCHOR_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between text-xs text-neutral-300">
+                Follow pointer to other displays
+                <input
+                  type="checkbox"
+                  checked={settings.followCursorDisplay || settings.windowAnchor === 'near-caret'}
+                  disabled={settings.windowAnchor === 'near-caret'}
+                  onChange={(e) => onChange({ followCursorDisplay: e.target.checked })}
+                  className="accent-violet-500 disabled:opacity-50"
+                  title="Move the overlay to the display with the mouse pointer when recording starts"
+                />
+              </label>
+              {settings.windowPositions.length > 0 && (
+                <button
+                  onClick={() => onChange({ windowPositions: [] })}
+                  className="text-xs text-violet-400 hover:text-violet-300"
+                >
+                  Reset window position
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <button
+          onClick={onEditShortcuts}
+          className="w-full px-2 py-1 text-xs text-left rounded border border-violet-500/20 text-neutral-200 hover:border-violet-500/50 transition-colors"
+        >
+          Keyboard shortcuts...
+        </button>
+        <button
+          onClick={onEditGlossary}
+          className="w-full px-2 py-1 text-xs text-left rounded border border-violet-500/20 text-neutral-200 hover:border-violet-500/50 transition-colors"
+        >
+          Glossary{settings.glossary.length > 0 ? ` (${settings.glossary.length})` : ''}...
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  acceleratorFromEvent,
+  formatAccelerator,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_ACTION_LABELS
+} from "@/utils/keyboardShortcuts";
+
+interface ShortcutSettingsProps {
+  bindings: ShortcutBindings;
+  checkConflicts: (bindings: ShortcutBindings) => Promise<ShortcutConflict[]>;
+  onSave: (bindings: ShortcutBindings) => Promise<void>;
+  onCaptureChange?: (capturing: boolean) => void; // Lets the caller pause active shortcuts
+  onClose: () => void;
+}
+
+export default function ShortcutSettings({
+  bindings,
+  checkConflicts,
+  onSave,
+  onCaptureChange,
+  onClose
+}: ShortcutSettingsProps) {
+  const [draft, setDraft] = useState<ShortcutBindings>(bindings);
+  const [capturingAction, setCapturingAction] = useState<ShortcutAction | null>(null);
+  const [conflicts, setConflicts] = useState<ShortcutConflict[]>([]);
+  const [confirmExternal, setConfirmExternal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over when the saved bindings change
+  useEffect(() => {
+    setDraft(bindings);
+  }, [bindings]);
+
+  // Any edit invalidates the previous conflict check
+  const updateDraft = useCallback((action: ShortcutAction, accelerator: string) => {
+    setDraft(prev => ({ ...prev, [action]: accelerator }));
+    setConflicts([]);
+    setConfirmExternal(false);
+  }, []);
+
+  // Let the caller know when we are listening for a new combination
+  useEffect(() => {
+    onCaptureChange?.(capturingAction !== null);
+  }, [capturingAction, onCaptureChange]);
+
+  // Resume shortcuts if the panel closes mid-capture
+  useEffect(() => {
+    return () => onCaptureChange?.(false);
+  }, [onCaptureChange]);
+
+  // Record the next key combination for the selected action
+  useEffect(() => {
+    if (!capturingAction) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const accelerator = acceleratorFromEvent(event);
+      if (!accelerator) return; // Wait for a non-modifier key
+
+      updateDraft(capturingAction, accelerator);
+      setCapturingAction(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [capturingAction, updateDraft]);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    try {
+      const found = await checkConflicts(draft);
+      setConflicts(found);
+
+      if (found.some(conflict => conflict.reason !== 'external')) {
+        return;
+      }
+      // Warn about shortcuts other apps use and save only once confirmed
+      if (found.length > 0 && !confirmExternal) {
+        setConfirmExternal(true);
+        return;
+      }
+
+      await onSave(draft);
+      setConfirmExternal(false);
+      onClose();
+    } catch (error) {
+      console.error("Error saving shortcuts:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [checkConflicts, confirmExternal, draft, onClose, onSave]);
+
+  return (
+    <div className="shortcut-settings-container w-72 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden">
+      <div className="flex items-center justify-between p-2 border-b border-violet-500/10">
+        <span className="text-xs text-violet-300">Keyboard Shortcuts</span>
+        <button
+          onClick={onClose}
+          className="text-neutral-400 hover:text-white p-1 rounded-full hover:bg-neutral-700/50 transition-colors"
+          title="Close shortcuts"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <ul className="py-1">
+        {SHORTCUT_ACTIONS.map((action) => {
+          const conflict = conflicts.find(c => c.action === action);
+          return (
+            <li key={action} className="px-2 py-1.5">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-neutral-300">{SHORTCUT_ACTION_LABELS[action]}</span>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => setCapturingAction(capturingAction === action ? null : action)}
+                    className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+                      capturingAction === action
+                        ? 'border-violet-400 text-violet-300 animate-pulse'
+                        : conflict
+                          ? conflict.reason === 'external'
+                            ? 'border-amber-500/50 text-amber-300'
+                            : 'border-red-500/50 text-red-300'
+                          : 'border-violet-500/20 text-neutral-200 hover:border-violet-500/50'
+                    }`}
+                    title="Click, then press the new key combination"
+                  >
+                    {capturingAction === action ? 'Press keys...' : formatAccelerator(draft[action])}
+                  </button>
+                  {draft[action] && (
+                    <button
+                      onClick={() => updateDraft(action, '')}
+                      className="ml-1 text-[10px] text-neutral-500 hover:text-red-400"
+                      title="Remove shortcut"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              </div>
+              {conflict && (
+                <p className={`mt-0.5 text-[10px] ${conflict.reason === 'external' ? 'text-amber-400' : 'text-red-400'}`}>
+                  {conflict.message}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex justify-end p-2 border-t border-violet-500/10">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || capturingAction !== null}
+          className="px-3 py-1 text-xs rounded bg-violet-600 text-white hover:bg-violet-700 disabled:bg-neutral-700 disabled:text-neutral-400 transition-colors"
+        >
+          {confirmExternal ? 'Save anyway' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
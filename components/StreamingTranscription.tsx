@@ -1,12 +1,23 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, ReactNode } from "react";
 
 interface StreamingTranscriptionProps {
   text: string;
   isTranscribing: boolean;
   typingSpeed?: number; // milliseconds per character
   onClose?: () => void; // Add close callback
+  status?: string; // Shown next to the title, e.g. while the text is being refined
+  rawText?: string; // Transcript before refinement, can be shown instead of the text
+  footer?: ReactNode; // Actions shown below the text, e.g. export buttons
+  notice?: TranscriptionNotice; // Shown instead of the text when there's no transcript
+}
+
+// Why a recording produced no transcript
+export interface TranscriptionNotice {
+  tone: 'error' | 'info';
+  title: string;
+  message: string;
 }
 
 export default function StreamingTranscription({
@@ -14,8 +25,13 @@ export default function StreamingTranscription({
   isTranscribing,
   typingSpeed = 15, // default typing speed
   onClose,
+  status,
+  rawText,
+  footer,
+  notice,
 }: StreamingTranscriptionProps) {
   const [displayedText, setDisplayedText] = useState("");
+  const [showRaw, setShowRaw] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
   const textToTypeRef = useRef("");
@@ -26,10 +42,10 @@ export default function StreamingTranscription({
 
   // Control visibility based on transcription state and content
   useEffect(() => {
-    if (isTranscribing || text.length > 0) {
+    if (isTranscribing || text.length > 0 || notice) {
       // Show immediately when transcribing or has content
       setIsVisible(true);
-    } else if (!isTranscribing && text.length === 0) {
+    } else {
       // Add a delay before hiding to allow for exit animation
       const hideTimer = setTimeout(() => {
         setIsVisible(false);
@@ -43,7 +59,12 @@ export default function StreamingTranscription({
       
       return () => clearTimeout(hideTimer);
     }
-  }, [isTranscribing, text]);
+  }, [isTranscribing, text, notice]);
+
+  // A new transcript starts out refined
+  useEffect(() => {
+    setShowRaw(false);
+  }, [rawText]);
 
   // When text changes, update the text to type without showing the full text first
   useEffect(() => {
@@ -119,7 +140,7 @@ export default function StreamingTranscription({
     ${isVisible ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-12 scale-95 pointer-events-none'}
   `;
 
-  if (!isVisible && !isTranscribing && text.length === 0) {
+  if (!isVisible && !isTranscribing && text.length === 0 && !notice) {
     return null;
   }
 
@@ -131,28 +152,52 @@ export default function StreamingTranscription({
           {isTranscribing && (
             <span className="inline-block h-3 w-3 bg-violet-500 rounded-full animate-pulse"></span>
           )}
+          {status && (
+            <span className="ml-2 text-xs font-normal text-violet-300">{status}</span>
+          )}
         </h2>
-        {onClose && (
-          <button 
-            onClick={onClose} 
-            className="text-neutral-400 hover:text-white p-1.5 rounded-full hover:bg-neutral-700/50 transition-colors"
-            title="Close transcription"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        )}
+        <div className="flex items-center">
+          {rawText && (
+            <button
+              onClick={() => setShowRaw(prev => !prev)}
+              className="mr-1 px-2 py-0.5 text-xs text-violet-400 hover:text-violet-300 rounded border border-violet-500/20 hover:border-violet-500/50 transition-colors"
+              title={showRaw ? 'Show the refined text' : 'Show the transcript before it was refined'}
+            >
+              {showRaw ? 'Refined' : 'Raw'}
+            </button>
+          )}
+          {onClose && (
+            <button 
+              onClick={onClose} 
+              className="text-neutral-400 hover:text-white p-1.5 rounded-full hover:bg-neutral-700/50 transition-colors"
+              title="Close transcription"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
       <div className="min-h-[60px] max-h-[40vh] overflow-y-auto scrollbar-thin scrollbar-thumb-violet-500/30 scrollbar-track-transparent text-neutral-200 pr-1">
-        {displayedText}
-        {isTyping && (
-          <span className="inline-block w-2 h-4 bg-violet-400 ml-1 animate-pulse"></span>
+        {notice && !isTranscribing ? (
+          <div className={`rounded-md border px-3 py-2 ${notice.tone === 'error' ? 'border-red-500/30 bg-red-500/10' : 'border-violet-500/20 bg-violet-500/10'}`}>
+            <p className={`text-sm font-medium ${notice.tone === 'error' ? 'text-red-300' : 'text-violet-300'}`}>{notice.title}</p>
+            <p className="text-xs text-neutral-400 mt-0.5">{notice.message}</p>
+          </div>
+        ) : (
+          <>
+            {showRaw && rawText ? rawText : displayedText}
+            {isTyping && !showRaw && (
+              <span className="inline-block w-2 h-4 bg-violet-400 ml-1 animate-pulse"></span>
+            )}
+          </>
         )}
-        {!displayedText && !isTranscribing && (
+        {!displayedText && !isTranscribing && !notice && (
           <span className="text-neutral-400 italic">Your transcription will appear here...</span>
         )}
       </div>
+      {footer}
     </div>
   );
 }
\ No newline at end of file
@@ -1,25 +1,65 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { transcribeBlob, TranscriptionAttempt, NO_AUDIO_MESSAGE, NO_SPEECH_MESSAGE } from "@/utils/transcriptionClient";
+import type { TimestampGranularity } from "@/lib/transcription/types";
+import { TranscriptionError } from "@/lib/transcription/errors";
 
 interface TranscriberProps {
   audioBlob: Blob | null;
-  onTranscriptionComplete: (text: string) => void;
+  onTranscriptionComplete: (result: TranscriptionAttempt) => void; // A transcript, nothing heard, or what went wrong
   onTranscriptionStart: () => void;
   onTranscriptionProgress?: (text: string) => void;
+  provider?: string; // Transcription provider id, server default when omitted
+  model?: string; // Model name, provider default when omitted
+  localModelPath?: string; // ggml model file for the local provider
+  localBinaryPath?: string; // whisper.cpp program for the local provider
+  language?: string; // Spoken language code, auto-detected when omitted
+  prompt?: string; // Vocabulary and style hint for the model
+  temperature?: number; // Sampling temperature between 0 and 1
+  translate?: boolean; // Output English whatever language is spoken
+  glossary?: GlossaryEntry[]; // Terms to spell correctly
+  timestamps?: TimestampGranularity[]; // Ask for segment and/or word timestamps
+  onRetry?: (attempt: number, delayMs: number, error: TranscriptionError) => void; // A transient failure is about to be retried
+  onTranscriptionFailed?: (error: TranscriptionError, audio: Blob) => void; // The request failed for good, e.g. to keep the audio for later
 }
 
 export default function Transcriber({ 
   audioBlob, 
   onTranscriptionComplete, 
   onTranscriptionStart,
-  onTranscriptionProgress 
+  onTranscriptionProgress,
+  provider,
+  model,
+  localModelPath,
+  localBinaryPath,
+  language,
+  prompt,
+  temperature,
+  translate,
+  glossary,
+  timestamps,
+  onRetry,
+  onTranscriptionFailed
 }: TranscriberProps) {
   // These state variables are used in the component logic even though they're not displayed in UI
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
 
+  // Read when new audio arrives, so changing a setting never transcribes the same audio again
+  const optionsRef = useRef({
+    provider, model, localModelPath, localBinaryPath, language, prompt, temperature, translate, glossary, timestamps
+  });
+  useEffect(() => {
+    optionsRef.current = {
+      provider, model, localModelPath, localBinaryPath, language, prompt, temperature, translate, glossary, timestamps
+    };
+  }, [provider, model, localModelPath, localBinaryPath, language, prompt, temperature, translate, glossary, timestamps]);
+
+  // The audio that was last sent, it is only ever transcribed once
+  const handledBlobRef = useRef<Blob | null>(null);
+
   // Set isMounted to true once component mounts
   useEffect(() => {
     setIsMounted(true);
@@ -36,7 +76,7 @@ export default function Transcriber({
     const minValidSize = 1000; // 1KB as minimum valid size
     if (blob.size < minValidSize) {
       console.warn("Audio blob is too small, likely contains no meaningful audio. Skipping API call.");
-      onTranscriptionComplete("No meaningful audio detected. Please try speaking louder or check your microphone.");
+      onTranscriptionComplete({ status: 'empty', reason: 'no_audio', message: NO_AUDIO_MESSAGE });
       return;
     }
     
@@ -45,73 +85,17 @@ export default function Transcriber({
     onTranscriptionStart();
 
     try {
-      // Validate the blob
-      if (blob.size === 0) {
-        throw new Error("Audio recording is empty. Please try recording again.");
-      }
-      
-      // Convert blob to File object with the correct extension based on the MIME type
-      const fileExtension = blob.type.includes('webm') ? 'webm' : 
-                           blob.type.includes('mp4') ? 'mp4' : 
-                           blob.type.includes('ogg') ? 'ogg' : 'wav';
-      
-      const fileName = `recording.${fileExtension}`;
-      console.log("Creating file with name:", fileName, "and type:", blob.type);
-      
-      const file = new File([blob], fileName, { type: blob.type || 'audio/webm' });
-      console.log("Created file object:", file.name, "Size:", file.size);
-      
-      // Create a FormData object to send the file
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("model", "whisper-1");
-      
-      // Add streaming parameter if we have a progress callback
-      if (onTranscriptionProgress) {
-        formData.append("stream", "true");
-      }
-      
-      console.log("Sending request to transcription API...");
-      // Make a request to our API route that will handle the OpenAI API call
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        body: formData,
+      const result = await transcribeBlob(blob, {
+        ...optionsRef.current,
+        onProgress: onTranscriptionProgress,
+        onRetry,
       });
       
-      console.log("API response status:", response.status);
-      
-      // Get the response data
-      const data = await response.json();
-      
-      // Check if the response contains an error
-      if (!response.ok) {
-        const errorMessage = data.error || `Transcription failed: ${response.statusText}`;
-        console.error("API error:", errorMessage);
-        throw new Error(errorMessage);
-      }
-      
-      // Check if we have text in the response
-      if (!data.text) {
-        console.error("API returned no text:", data);
-        throw new Error("Transcription returned empty text. Please try again.");
-      }
-      
-      console.log("Transcription successful, text length:", data.text.length);
-      
-      // Simulate streaming for demo purposes if we have a progress callback
-      if (onTranscriptionProgress) {
-        const words = data.text.split(' ');
-        let currentText = '';
-        
-        for (let i = 0; i < words.length; i++) {
-          currentText += (i > 0 ? ' ' : '') + words[i];
-          onTranscriptionProgress(currentText);
-          // Add a small delay between words to simulate streaming
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
+      if (result.text.trim()) {
+        onTranscriptionComplete({ status: 'success', result });
+      } else {
+        onTranscriptionComplete({ status: 'empty', reason: 'no_speech', message: NO_SPEECH_MESSAGE });
       }
-      
-      onTranscriptionComplete(data.text);
     } catch (err) {
       console.error("Transcription error:", err);
       
@@ -127,18 +111,25 @@ export default function Transcriber({
       // Set the error state
       setError(errorMessage);
       
+      // Requests that failed can be tried again
+      const code = err instanceof TranscriptionError ? err.code : 'unknown';
+      if (err instanceof TranscriptionError) {
+        onTranscriptionFailed?.(err, blob);
+      }
+      
       // Also notify the parent component about the error
-      onTranscriptionComplete("Error: " + errorMessage);
+      onTranscriptionComplete({ status: 'error', code, message: errorMessage });
     } finally {
       setIsTranscribing(false);
     }
-  }, [isMounted, onTranscriptionComplete, onTranscriptionStart, onTranscriptionProgress]);
+  }, [isMounted, onTranscriptionComplete, onTranscriptionStart, onTranscriptionProgress, onRetry, onTranscriptionFailed]);
 
   // Automatically start transcription when a new audioBlob is received
   useEffect(() => {
-    if (audioBlob && isMounted) {
-      transcribeAudio(audioBlob);
-    }
+    if (!audioBlob || !isMounted || audioBlob === handledBlobRef.current) return;
+    
+    handledBlobRef.current = audioBlob;
+    transcribeAudio(audioBlob);
   }, [audioBlob, isMounted, transcribeAudio]);
 
   if (!isMounted) {
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { exportTranscript, ExportFormat, hasTimestamps } from "@/utils/transcriptExport";
+
+interface TranscriptExportProps {
+  transcript: TranscriptionResult;
+  recordedAt?: number; // When the recording started, ms since epoch
+}
+
+const FORMATS: { format: ExportFormat; label: string; title: string; needsTimestamps: boolean }[] = [
+  { format: 'srt', label: 'SRT', title: 'Save as SubRip subtitles', needsTimestamps: true },
+  { format: 'vtt', label: 'VTT', title: 'Save as WebVTT subtitles', needsTimestamps: true },
+  { format: 'md', label: 'Notes', title: 'Save as timestamped Markdown notes', needsTimestamps: false }
+];
+
+/**
+ * Save a file through the Electron save dialog, or as a download in the browser
+ */
+async function saveFile(content: string, fileName: string, mimeType: string): Promise<boolean> {
+  if (window.electronAPI?.saveTranscript) {
+    return (await window.electronAPI.saveTranscript(content, fileName)) !== null;
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return true;
+}
+
+export default function TranscriptExport({ transcript, recordedAt }: TranscriptExportProps) {
+  const [savedFormat, setSavedFormat] = useState<ExportFormat | null>(null);
+  const timed = hasTimestamps(transcript);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    const date = new Date(recordedAt ?? Date.now());
+    const { content, mimeType, extension } = exportTranscript(transcript, format, {
+      title: `Transcript ${date.toLocaleDateString()}`,
+      recordedAt
+    });
+    // e.g. transcript-2025-03-01-1430.srt, in local time
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+
+    try {
+      if (await saveFile(content, `transcript-${stamp}.${extension}`, mimeType)) {
+        setSavedFormat(format);
+        setTimeout(() => setSavedFormat(null), 1500);
+      }
+    } catch (error) {
+      console.error("Error exporting transcript:", error);
+    }
+  }, [recordedAt, transcript]);
+
+  return (
+    <div className="flex items-center justify-end mt-2 space-x-1 text-xs">
+      <span className="text-neutral-500 mr-1">Save as</span>
+      {FORMATS.filter(option => timed || !option.needsTimestamps).map(option => (
+        <button
+          key={option.format}
+          onClick={() => handleExport(option.format)}
+          className="px-2 py-0.5 text-violet-400 hover:text-violet-300 rounded border border-violet-500/20 hover:border-violet-500/50 transition-colors"
+          title={option.title}
+        >
+          {savedFormat === option.format ? 'Saved' : option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { describeErrorCode } from "@/lib/transcription/errors";
+import type { QueuedTranscription } from "@/utils/transcriptionQueue";
+
+interface TranscriptionQueueProps {
+  entries: QueuedTranscription[];
+  onRetry: (entry: QueuedTranscription) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  disabled?: boolean; // Set while recording or transcribing, one transcription runs at a time
+}
+
+// Format when a recording was queued as a short time for today, or a date for older entries
+function formatQueuedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Format a recording duration as m:ss
+function formatDuration(durationMs?: number): string | null {
+  if (!durationMs) return null;
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Recordings whose transcription failed, to try again once the problem is fixed
+ */
+export default function TranscriptionQueue({ entries, onRetry, onDelete, onClose, disabled }: TranscriptionQueueProps) {
+  return (
+    <div className="transcription-queue-container w-72 bg-neutral-800/95 backdrop-blur-md rounded-lg shadow-lg border border-violet-500/20 overflow-hidden">
+      <div className="flex items-center justify-between p-2 border-b border-violet-500/10">
+        <span className="text-xs text-violet-300">Failed transcriptions</span>
+        <button
+          onClick={onClose}
+          className="text-neutral-400 hover:text-white p-1 rounded-full hover:bg-neutral-700/50 transition-colors"
+          title="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <div className="max-h-60 overflow-y-auto">
+        {entries.length > 0 ? (
+          <ul className="py-1">
+            {entries.map((entry) => (
+              <li key={entry.id} className="px-2 py-1.5 hover:bg-violet-500/10 transition-colors">
+                <div className="flex items-center justify-between text-[10px] text-neutral-500 mb-0.5">
+                  <span className="truncate">
+                    {[formatQueuedAt(entry.createdAt), formatDuration(entry.durationMs), entry.fileName ?? entry.microphone]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </span>
+                  <span className="flex items-center flex-shrink-0 ml-2">
+                    <button
+                      onClick={() => onRetry(entry)}
+                      disabled={disabled}
+                      className="px-1 text-violet-400 hover:text-violet-300 disabled:text-neutral-600"
+                      title="Transcribe again"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      className="px-1 text-neutral-500 hover:text-red-400"
+                      title="Discard the recording"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-300">{describeErrorCode(entry.code)}</p>
+                <p className="text-[10px] text-neutral-500 line-clamp-2" title={entry.error}>
+                  {entry.error}{entry.attempts > 1 && ` (${entry.attempts} attempts)`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="p-3 text-xs text-neutral-400 text-center">
+            Nothing waiting to be transcribed
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AutoPasteOptions } from './settings';
+
+// The clipboard and settings live in the Electron main process, stand-ins are enough here
+const { clipboard, settings } = vi.hoisted(() => {
+  let text = '';
+  return {
+    clipboard: {
+      readText: () => text,
+      writeText: (value: string) => {
+        text = value;
+      },
+    },
+    settings: { autoPaste: { enabled: true, restoreClipboard: false } as AutoPasteOptions },
+  };
+});
+
+vi.mock('electron', () => ({ clipboard }));
+vi.mock('./settings', () => ({ getSettings: () => settings }));
+
+import { deliverTranscription, KeystrokeInjector, PasteTarget, rememberPasteTarget, setKeystrokeInjector } from './autoPaste';
+
+// Records pastes instead of sending keystrokes, along with what was on the clipboard at the time
+class FakeKeystrokeInjector implements KeystrokeInjector {
+  readonly pastes: { target: PasteTarget; text: string }[] = [];
+  activeWindow: PasteTarget | null = { id: '42' };
+  failPaste = false;
+
+  async getActiveWindow(): Promise<PasteTarget | null> {
+    return this.activeWindow;
+  }
+
+  async pasteInto(target: PasteTarget): Promise<void> {
+    if (this.failPaste) {
+      throw new Error('Window is gone');
+    }
+    this.pastes.push({ target, text: clipboard.readText() });
+  }
+}
+
+describe('deliverTranscription', () => {
+  let injector: FakeKeystrokeInjector;
+
+  beforeEach(() => {
+    injector = new FakeKeystrokeInjector();
+    setKeystrokeInjector(injector);
+    settings.autoPaste = { enabled: true, restoreClipboard: false };
+    clipboard.writeText('previous');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('pastes into the window that had focus when recording started', async () => {
+    await rememberPasteTarget();
+    injector.activeWindow = { id: 'overlay' };
+
+    await deliverTranscription('Hello there');
+
+    expect(injector.pastes).toEqual([{ target: { id: '42' }, text: 'Hello there' }]);
+    expect(clipboard.readText()).toBe('Hello there');
+  });
+
+  it('only pastes once per recording', async () => {
+    await rememberPasteTarget();
+    await deliverTranscription('First');
+    await deliverTranscription('Second');
+
+    expect(injector.pastes).toHaveLength(1);
+    expect(clipboard.readText()).toBe('Second');
+  });
+
+  it('puts the previous clipboard back after pasting when asked to', async () => {
+    vi.useFakeTimers();
+    settings.autoPaste = { enabled: true, restoreClipboard: true };
+    await rememberPasteTarget();
+
+    await deliverTranscription('Hello there');
+    expect(clipboard.readText()).toBe('Hello there');
+
+    vi.runAllTimers();
+    expect(clipboard.readText()).toBe('previous');
+  });
+
+  it('only copies when auto-paste is off', async () => {
+    settings.autoPaste = { enabled: false, restoreClipboard: true };
+    await rememberPasteTarget();
+
+    await deliverTranscription('Hello there');
+
+    expect(injector.pastes).toEqual([]);
+    expect(clipboard.readText()).toBe('Hello there');
+  });
+
+  it('leaves the transcript on the clipboard when pasting fails', async () => {
+    vi.useFakeTimers();
+    settings.autoPaste = { enabled: true, restoreClipboard: true };
+    injector.failPaste = true;
+    await rememberPasteTarget();
+
+    await deliverTranscription('Hello there');
+    vi.runAllTimers();
+
+    expect(clipboard.readText()).toBe('Hello there');
+  });
+});
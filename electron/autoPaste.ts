@@ -0,0 +1,169 @@
+import { clipboard } from 'electron';
+import { execFile } from 'child_process';
+import { AutoPasteOptions, getSettings } from './settings';
+
+// The window that had focus when recording started
+export interface PasteTarget {
+  id: string;
+}
+
+// Sends keystrokes to other applications. Implementations shell out to
+// platform tools so they can be swapped for a fake where those aren't available.
+export interface KeystrokeInjector {
+  // Identify the currently focused window, or null if it can't be determined
+  getActiveWindow(): Promise<PasteTarget | null>;
+  // Focus the target window and send the platform paste shortcut to it
+  pasteInto(target: PasteTarget): Promise<void>;
+}
+
+// Give the target app time to read the clipboard before restoring it
+const CLIPBOARD_RESTORE_DELAY = 500;
+
+// Run a command and resolve with its trimmed stdout
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: 5000, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout.toString().trim());
+      }
+    });
+  });
+}
+
+// Linux (X11) through xdotool
+class XdotoolInjector implements KeystrokeInjector {
+  async getActiveWindow(): Promise<PasteTarget | null> {
+    const id = await run('xdotool', ['getactivewindow']);
+    return id ? { id } : null;
+  }
+
+  async pasteInto(target: PasteTarget): Promise<void> {
+    await run('xdotool', ['windowactivate', '--sync', target.id, 'key', '--clearmodifiers', 'ctrl+v']);
+  }
+}
+
+// macOS through AppleScript, requires the Accessibility permission
+class AppleScriptInjector implements KeystrokeInjector {
+  async getActiveWindow(): Promise<PasteTarget | null> {
+    const name = await run('osascript', [
+      '-e', 'tell application "System Events" to get name of first application process whose frontmost is true'
+    ]);
+    return name ? { id: name } : null;
+  }
+
+  async pasteInto(target: PasteTarget): Promise<void> {
+    await run('osascript', [
+      '-e', `tell application "System Events" to set frontmost of process ${JSON.stringify(target.id)} to true`,
+      '-e', 'tell application "System Events" to keystroke "v" using command down'
+    ]);
+  }
+}
+
+// Windows through PowerShell and user32
+class PowerShellInjector implements KeystrokeInjector {
+  private static readonly USER32 = `Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public class VibeUser32 {
+  [DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll")] public static extern bool SetForegroundWindow(IntPtr hWnd);
+}
+"@`;
+
+  async getActiveWindow(): Promise<PasteTarget | null> {
+    const id = await run('powershell', [
+      '-NoProfile', '-Command', `${PowerShellInjector.USER32}; [VibeUser32]::GetForegroundWindow().ToInt64()`
+    ]);
+    return id && id !== '0' ? { id } : null;
+  }
+
+  async pasteInto(target: PasteTarget): Promise<void> {
+    if (!/^\d+$/.test(target.id)) {
+      throw new Error(`Invalid window handle: ${target.id}`);
+    }
+    await run('powershell', [
+      '-NoProfile', '-Command',
+      `${PowerShellInjector.USER32}; [VibeUser32]::SetForegroundWindow([IntPtr]${target.id}) | Out-Null; ` +
+      `Start-Sleep -Milliseconds 100; Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('^v')`
+    ]);
+  }
+}
+
+function createDefaultInjector(): KeystrokeInjector {
+  switch (process.platform) {
+    case 'darwin':
+      return new AppleScriptInjector();
+    case 'win32':
+      return new PowerShellInjector();
+    default:
+      return new XdotoolInjector();
+  }
+}
+
+let injector: KeystrokeInjector | null = null;
+let pasteTarget: Promise<PasteTarget | null> = Promise.resolve(null);
+
+function getInjector(): KeystrokeInjector {
+  if (!injector) {
+    injector = createDefaultInjector();
+  }
+  return injector;
+}
+
+// Replace the keystroke injector, e.g. with a fake in tests
+export function setKeystrokeInjector(replacement: KeystrokeInjector) {
+  injector = replacement;
+}
+
+export function getAutoPasteOptions(): AutoPasteOptions {
+  return getSettings().autoPaste;
+}
+
+// Remember the focused window before our overlay takes focus.
+// Must be called as soon as the start shortcut fires.
+export function rememberPasteTarget(): Promise<PasteTarget | null> {
+  if (!getAutoPasteOptions().enabled) {
+    pasteTarget = Promise.resolve(null);
+    return pasteTarget;
+  }
+
+  pasteTarget = getInjector().getActiveWindow().catch(error => {
+    console.error('Error getting the active window for auto-paste:', error);
+    return null;
+  });
+  return pasteTarget;
+}
+
+// Put the transcription on the clipboard and, when enabled, paste it into the remembered window
+export async function deliverTranscription(text: string) {
+  const { enabled, restoreClipboard } = getAutoPasteOptions();
+  const target = enabled ? await pasteTarget : null;
+  // A target is only good for the recording it was captured for
+  pasteTarget = Promise.resolve(null);
+
+  if (!target) {
+    clipboard.writeText(text);
+    return;
+  }
+
+  const previousClipboard = restoreClipboard ? clipboard.readText() : null;
+  clipboard.writeText(text);
+
+  try {
+    await getInjector().pasteInto(target);
+    console.log(`Pasted transcription into window ${target.id}`);
+  } catch (error) {
+    // The text is still on the clipboard, so the user can paste by hand
+    console.error('Error pasting transcription:', error);
+    return;
+  }
+
+  if (previousClipboard !== null) {
+    setTimeout(() => {
+      clipboard.writeText(previousClipboard);
+      console.log('Restored previous clipboard contents');
+    }, CLIPBOARD_RESTORE_DELAY);
+  }
+}
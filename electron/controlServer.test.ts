@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Only the user data directory is needed from Electron
+const { paths } = vi.hoisted(() => ({ paths: { userData: '' } }));
+vi.mock('electron', () => ({ app: { getPath: () => paths.userData } }));
+
+import { broadcastControlEvent, ControlHandlers, startControlServer, stopControlServer } from './controlServer';
+
+const handlers: ControlHandlers = {
+  start: () => {},
+  stop: () => {},
+  cancel: () => {},
+  status: () => ({ state: 'idle' }),
+  lastTranscript: () => null,
+  transcribeFile: async () => true,
+};
+
+// A script on the other end of the socket, reading one message per line
+async function connect(socketPath: string) {
+  const socket = net.connect(socketPath);
+  socket.setEncoding('utf8');
+  await new Promise<void>((resolve, reject) => {
+    socket.once('connect', resolve);
+    socket.once('error', reject);
+  });
+
+  const messages: unknown[] = [];
+  const waiting: ((message: unknown) => void)[] = [];
+  let buffer = '';
+  socket.on('data', (data: string) => {
+    buffer += data;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const message = JSON.parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve(message);
+      } else {
+        messages.push(message);
+      }
+      newline = buffer.indexOf('\n');
+    }
+  });
+
+  return {
+    send: (message: object | string) => {
+      socket.write(`${typeof message === 'string' ? message : JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+    },
+    next: () => messages.length > 0
+      ? Promise.resolve(messages.shift())
+      : new Promise<unknown>(resolve => waiting.push(resolve)),
+    close: () => socket.destroy(),
+  };
+}
+
+// Send one request and wait for the line that answers it
+async function call(socketPath: string, method: string, params?: unknown): Promise<unknown> {
+  const client = await connect(socketPath);
+  client.send({ id: 1, method, params });
+  const response = await client.next();
+  client.close();
+  return response;
+}
+
+describe.skipIf(process.platform === 'win32')('startControlServer', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'control-server-'));
+    paths.userData = dir;
+  });
+
+  afterEach(() => {
+    stopControlServer();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('listens in a directory only the user can open', async () => {
+    const socketPath = await startControlServer(handlers);
+
+    expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toBe(0o700);
+    expect(await call(socketPath, 'status')).toEqual({ jsonrpc: '2.0', id: 1, result: { state: 'idle' } });
+  });
+
+  it('tightens a directory left open by someone else', async () => {
+    fs.mkdirSync(path.join(dir, 'control'), { mode: 0o755 });
+
+    const socketPath = await startControlServer(handlers);
+
+    expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toBe(0o700);
+  });
+
+  it('rejects when it cannot listen', async () => {
+    // Something the stale socket cleanup won't remove is in the way
+    fs.mkdirSync(path.join(dir, 'control', 'control.sock'), { recursive: true });
+
+    await expect(startControlServer(handlers)).rejects.toThrow();
+  });
+
+  it('rejects when the socket directory cannot be created', async () => {
+    // A file where the socket directory should be
+    fs.writeFileSync(path.join(dir, 'control'), '');
+
+    await expect(startControlServer(handlers)).rejects.toThrow();
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('control requests', () => {
+  let dir: string;
+  let socketPath: string;
+
+  const listen = async (overrides: Partial<ControlHandlers> = {}) => {
+    socketPath = await startControlServer({ ...handlers, ...overrides });
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'control-requests-'));
+    paths.userData = dir;
+  });
+
+  afterEach(() => {
+    stopControlServer();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs the handler of each method', async () => {
+    const start = vi.fn();
+    const stop = vi.fn();
+    const cancel = vi.fn();
+    await listen({
+      start,
+      stop,
+      cancel,
+      status: () => ({ state: 'recording' }),
+      lastTranscript: () => ({ text: 'Hello' }),
+    });
+
+    for (const method of ['start', 'stop', 'cancel']) {
+      expect(await call(socketPath, method)).toEqual({ jsonrpc: '2.0', id: 1, result: true });
+    }
+    expect(start).toHaveBeenCalledOnce();
+    expect(stop).toHaveBeenCalledOnce();
+    expect(cancel).toHaveBeenCalledOnce();
+    expect(await call(socketPath, 'status')).toMatchObject({ result: { state: 'recording' } });
+    expect(await call(socketPath, 'lastTranscript')).toMatchObject({ result: { text: 'Hello' } });
+    expect(await call(socketPath, 'dance')).toMatchObject({ error: { code: -32601 } });
+  });
+
+  it('transcribes a file given by its absolute path', async () => {
+    const transcribeFile = vi.fn(async () => true);
+    await listen({ transcribeFile });
+
+    expect(await call(socketPath, 'transcribeFile', { path: '/tmp/talk.mp3' })).toMatchObject({ result: true });
+    expect(await call(socketPath, 'transcribeFile', ['/tmp/other.mp3'])).toMatchObject({ result: true });
+    expect(transcribeFile.mock.calls).toEqual([['/tmp/talk.mp3'], ['/tmp/other.mp3']]);
+  });
+
+  it('rejects a missing or relative path', async () => {
+    const transcribeFile = vi.fn(async () => true);
+    await listen({ transcribeFile });
+
+    for (const params of [undefined, {}, { path: 'talk.mp3' }, [42]]) {
+      expect(await call(socketPath, 'transcribeFile', params)).toMatchObject({ error: { code: -32602 } });
+    }
+    expect(transcribeFile).not.toHaveBeenCalled();
+  });
+
+  it('reports a file that could not be transcribed, or an app that is busy', async () => {
+    await listen({ transcribeFile: async () => false });
+    expect(await call(socketPath, 'transcribeFile', { path: '/tmp/notes.txt' })).toMatchObject({
+      error: { code: -32000, message: 'Could not transcribe /tmp/notes.txt' }
+    });
+    stopControlServer();
+
+    await listen({
+      transcribeFile: async () => {
+        throw new Error('Busy recording, try again when the state is idle');
+      }
+    });
+    expect(await call(socketPath, 'transcribeFile', { path: '/tmp/talk.mp3' })).toMatchObject({
+      error: { code: -32000, message: 'Busy recording, try again when the state is idle' }
+    });
+  });
+
+  it('does not answer notifications', async () => {
+    const stop = vi.fn();
+    await listen({ stop });
+    const client = await connect(socketPath);
+
+    client.send({ method: 'stop' });
+    client.send({ method: 'dance' });
+    client.send({ id: 2, method: 'status' });
+
+    // The first answer is the one to the request with an id
+    expect(await client.next()).toEqual({ jsonrpc: '2.0', id: 2, result: { state: 'idle' } });
+    expect(stop).toHaveBeenCalledOnce();
+    client.close();
+  });
+
+  it('answers malformed messages with an error', async () => {
+    await listen();
+    const client = await connect(socketPath);
+
+    client.send('{"jsonrpc": "2.0", "id": 1, "method"');
+    expect(await client.next()).toMatchObject({ id: null, error: { code: -32700 } });
+
+    client.send({ id: 3, params: [] });
+    expect(await client.next()).toMatchObject({ id: 3, error: { code: -32600 } });
+    client.close();
+  });
+
+  it('sends events to every connected client', async () => {
+    await listen();
+    const first = await connect(socketPath);
+    const second = await connect(socketPath);
+    // Answered once the server has set up both connections
+    second.send({ id: 1, method: 'status' });
+    await second.next();
+
+    broadcastControlEvent({ type: 'state', state: 'recording' });
+
+    const event = { jsonrpc: '2.0', method: 'event', params: { type: 'state', state: 'recording' } };
+    expect(await first.next()).toEqual(event);
+    expect(await second.next()).toEqual(event);
+    first.close();
+    second.close();
+  });
+});
@@ -0,0 +1,204 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+// What scripts can ask for. main.ts implements these with the same functions the
+// global shortcuts and the tray use.
+export interface ControlHandlers {
+  start: () => void;
+  stop: () => void;
+  cancel: () => void;
+  status: () => unknown;
+  lastTranscript: () => unknown;
+  transcribeFile: (filePath: string) => Promise<boolean>; // False if the file couldn't be read or isn't media, throws when busy
+}
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const SERVER_ERROR = -32000;
+
+// A client sending more than this without a newline isn't speaking our protocol
+const MAX_MESSAGE_LENGTH = 64 * 1024;
+
+class ControlError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'ControlError';
+    this.code = code;
+  }
+}
+
+let server: net.Server | null = null;
+const clients = new Set<net.Socket>();
+
+// A named pipe on Windows, a socket in its own directory next to the settings elsewhere
+export function getControlSocketPath(): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\vibetranscribe-${os.userInfo().username}`;
+  }
+  return path.join(app.getPath('userData'), 'control', 'control.sock');
+}
+
+function send(socket: net.Socket, message: object) {
+  if (!socket.destroyed) {
+    socket.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+  }
+}
+
+async function callMethod(handlers: ControlHandlers, method: string, params: unknown): Promise<unknown> {
+  switch (method) {
+    case 'start':
+      handlers.start();
+      return true;
+    case 'stop':
+      handlers.stop();
+      return true;
+    case 'cancel':
+      handlers.cancel();
+      return true;
+    case 'status':
+      return handlers.status();
+    case 'lastTranscript':
+      return handlers.lastTranscript();
+    case 'transcribeFile': {
+      // Accept { "path": "..." } or [ "..." ]
+      const filePath = Array.isArray(params)
+        ? params[0]
+        : params && typeof params === 'object' ? (params as Record<string, unknown>).path : undefined;
+      if (typeof filePath !== 'string' || !path.isAbsolute(filePath)) {
+        throw new ControlError('transcribeFile needs the absolute path of a file', INVALID_PARAMS);
+      }
+      if (!await handlers.transcribeFile(filePath)) {
+        throw new ControlError(`Could not transcribe ${filePath}`, SERVER_ERROR);
+      }
+      return true;
+    }
+    default:
+      throw new ControlError(`Unknown method: ${method}`, METHOD_NOT_FOUND);
+  }
+}
+
+// Answer one line of JSON-RPC, notifications (requests without an id) get no response
+async function handleMessage(socket: net.Socket, line: string, handlers: ControlHandlers) {
+  let request: Record<string, unknown>;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    send(socket, { id: null, error: { code: PARSE_ERROR, message: 'Invalid JSON' } });
+    return;
+  }
+
+  const id = request && typeof request === 'object' ? request.id ?? null : null;
+  const isNotification = request && typeof request === 'object' && !('id' in request);
+  try {
+    if (!request || typeof request !== 'object' || typeof request.method !== 'string') {
+      throw new ControlError('Expected a JSON-RPC request with a method', INVALID_REQUEST);
+    }
+    const result = await callMethod(handlers, request.method, request.params);
+    if (!isNotification) {
+      send(socket, { id, result });
+    }
+  } catch (error) {
+    const code = error instanceof ControlError ? error.code : SERVER_ERROR;
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Control request failed: ${message}`);
+    if (!isNotification) {
+      send(socket, { id, error: { code, message } });
+    }
+  }
+}
+
+function handleConnection(socket: net.Socket, handlers: ControlHandlers) {
+  clients.add(socket);
+  socket.setEncoding('utf8');
+
+  // One JSON-RPC message per line
+  let buffer = '';
+  socket.on('data', (data: string) => {
+    buffer += data;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        handleMessage(socket, line, handlers);
+      }
+      newline = buffer.indexOf('\n');
+    }
+    if (buffer.length > MAX_MESSAGE_LENGTH) {
+      socket.destroy();
+    }
+  });
+  socket.on('error', (error) => {
+    console.warn('Control client error:', error.message);
+  });
+  socket.on('close', () => {
+    clients.delete(socket);
+  });
+}
+
+// Listen for scripts on the control socket.
+// Resolves with its path once listening, rejects if it can't be created.
+export function startControlServer(handlers: ControlHandlers): Promise<string> {
+  const socketPath = getControlSocketPath();
+  if (server) return Promise.resolve(socketPath);
+
+  if (process.platform !== 'win32') {
+    // Other users on the machine mustn't be able to start recordings. The socket
+    // takes the umask when it's created, so it goes in a directory only we can enter.
+    const directory = path.dirname(socketPath);
+    try {
+      fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+      fs.chmodSync(directory, 0o700);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    // Only one instance runs, so a socket left behind is from one that crashed
+    try {
+      fs.unlinkSync(socketPath);
+    } catch {
+      // Nothing to clean up
+    }
+  }
+
+  const listening = net.createServer(socket => handleConnection(socket, handlers));
+  server = listening;
+  return new Promise((resolve, reject) => {
+    const handleListenError = (error: Error) => {
+      server = null;
+      reject(error);
+    };
+    listening.once('error', handleListenError);
+    listening.listen(socketPath, () => {
+      listening.off('error', handleListenError);
+      listening.on('error', (error) => {
+        console.error('Control server error:', error);
+      });
+      resolve(socketPath);
+    });
+  });
+}
+
+// Send an event to every connected client, e.g. { type: 'state', state: 'recording' }
+export function broadcastControlEvent(event: { type: string } & Record<string, unknown>) {
+  for (const socket of clients) {
+    send(socket, { method: 'event', params: event });
+  }
+}
+
+export function stopControlServer() {
+  for (const socket of clients) {
+    socket.destroy();
+  }
+  clients.clear();
+  server?.close();
+  server = null;
+}
@@ -0,0 +1,103 @@
+import { app } from 'electron';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// A finished transcription as stored on disk
+export interface HistoryEntry {
+  id: string;
+  timestamp: number; // When the transcription completed (ms since epoch)
+  durationMs?: number; // Length of the recording
+  microphone?: string; // Display name of the mic used
+  fileName?: string; // Name of the transcribed file, when it wasn't recorded
+  model?: string; // Model that produced the text
+  text: string;
+  rawText?: string; // Transcript before it was refined, when a refine mode was on
+  refinePreset?: string; // Refine mode that produced the text
+}
+
+// Metadata the renderer sends along with a finished transcription
+export type HistoryMetadata = Pick<HistoryEntry, 'durationMs' | 'microphone' | 'fileName' | 'model' | 'rawText' | 'refinePreset'>;
+
+// Keep the file small enough to load instantly on startup
+const MAX_HISTORY_ENTRIES = 500;
+
+let entries: HistoryEntry[] | null = null;
+
+function getHistoryPath(): string {
+  return path.join(app.getPath('userData'), 'history.json');
+}
+
+// Load entries lazily, newest first
+function getEntries(): HistoryEntry[] {
+  if (!entries) {
+    const stored = readJsonFile<HistoryEntry[]>(getHistoryPath(), []);
+    entries = Array.isArray(stored) ? stored : [];
+  }
+  return entries;
+}
+
+function saveEntries() {
+  writeJsonFile(getHistoryPath(), getEntries());
+}
+
+// Add a transcription to the history
+export function addHistoryEntry(text: string, metadata: HistoryMetadata = {}): HistoryEntry {
+  const entry: HistoryEntry = {
+    id: randomUUID(),
+    timestamp: Date.now(),
+    durationMs: metadata.durationMs,
+    microphone: metadata.microphone,
+    fileName: metadata.fileName,
+    model: metadata.model,
+    text,
+    rawText: metadata.rawText,
+    refinePreset: metadata.refinePreset
+  };
+
+  const history = getEntries();
+  history.unshift(entry);
+  history.splice(MAX_HISTORY_ENTRIES);
+  saveEntries();
+
+  return entry;
+}
+
+// List the most recent entries
+export function listHistory(limit = 50): HistoryEntry[] {
+  return getEntries().slice(0, limit);
+}
+
+// Case-insensitive search over text, microphone and model
+export function searchHistory(query: string, limit = 50): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return listHistory(limit);
+  }
+
+  return getEntries()
+    .filter(entry =>
+      entry.text.toLowerCase().includes(needle) ||
+      entry.rawText?.toLowerCase().includes(needle) ||
+      entry.microphone?.toLowerCase().includes(needle) ||
+      entry.model?.toLowerCase().includes(needle)
+    )
+    .slice(0, limit);
+}
+
+export function getHistoryEntry(id: string): HistoryEntry | undefined {
+  return getEntries().find(entry => entry.id === id);
+}
+
+// Remove an entry, returns false if it didn't exist
+export function deleteHistoryEntry(id: string): boolean {
+  const history = getEntries();
+  const index = history.findIndex(entry => entry.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  history.splice(index, 1);
+  saveEntries();
+  return true;
+}
@@ -0,0 +1,27 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Read a JSON file, falling back to a default when it is missing or corrupt
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return fallback;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    console.error(`Error reading ${filePath}:`, error);
+    return fallback;
+  }
+}
+
+// Write a JSON file atomically so a crash mid-write never leaves it truncated
+export function writeJsonFile(filePath: string, data: unknown) {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    console.error(`Error writing ${filePath}:`, error);
+  }
+}
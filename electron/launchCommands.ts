@@ -0,0 +1,37 @@
+import * as path from 'path';
+
+// What a launch asks the running app to do, e.g. `VibeTranscribe --transcribe-file talk.m4a`
+export type LaunchCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'cancel' }
+  | { type: 'transcribeFile'; filePath: string };
+
+const TRANSCRIBE_FILE_FLAG = '--transcribe-file';
+
+// Pick our flags out of a command line, Electron and Chromium add switches of their own.
+// File paths are relative to the directory the app was launched from.
+export function parseLaunchCommands(argv: string[], workingDirectory: string): LaunchCommand[] {
+  const commands: LaunchCommand[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--start') {
+      commands.push({ type: 'start' });
+    } else if (arg === '--stop') {
+      commands.push({ type: 'stop' });
+    } else if (arg === '--cancel') {
+      commands.push({ type: 'cancel' });
+    } else if (arg === TRANSCRIBE_FILE_FLAG || arg.startsWith(`${TRANSCRIBE_FILE_FLAG}=`)) {
+      const isInline = arg !== TRANSCRIBE_FILE_FLAG;
+      const filePath = isInline ? arg.slice(TRANSCRIBE_FILE_FLAG.length + 1) : argv[i + 1];
+      if (filePath && !filePath.startsWith('--')) {
+        if (!isInline) i++;
+        commands.push({ type: 'transcribeFile', filePath: path.resolve(workingDirectory, filePath) });
+      } else {
+        console.warn(`${TRANSCRIBE_FILE_FLAG} needs the path of a file`);
+      }
+    }
+  }
+  return commands;
+}
@@ -1,6 +1,37 @@
-import { app, BrowserWindow, globalShortcut, clipboard, screen, ipcMain } from 'electron';
+import { app, BrowserWindow, globalShortcut, clipboard, screen, ipcMain, dialog, Notification } from 'electron';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as url from 'url';
+import {
+  addHistoryEntry,
+  deleteHistoryEntry,
+  getHistoryEntry,
+  listHistory,
+  searchHistory
+} from './history';
+import { deliverTranscription, rememberPasteTarget } from './autoPaste';
+import { broadcastControlEvent, startControlServer, stopControlServer } from './controlServer';
+import { LaunchCommand, parseLaunchCommands } from './launchCommands';
+import { isTranscriptionOutcome } from './transcriptionOutcome';
+import { createTray, destroyTray, TrayMicrophone, updateTray } from './tray';
+import {
+  findShortcutConflicts,
+  isActionShortcutRegistered,
+  registerShortcuts as registerActionShortcuts,
+  restoreShortcuts as restoreActionShortcuts,
+  saveShortcutBindings,
+  setShortcutHandlers,
+  setShortcutsPaused
+} from './shortcuts';
+import {
+  getSettings,
+  onSettingsChanged,
+  SettingsChanges,
+  ShortcutBindings,
+  updateSettings,
+  WindowPosition
+} from './settings';
+import { getStartupDisplay, getWindowPosition, isOnScreen, saveWindowPosition } from './windowPlacement';
 
 // Development vs Production flag
 const isDev = process.env.NODE_ENV !== 'production';
@@ -19,16 +50,115 @@ let mainWindow: CustomBrowserWindow | null = null;
 // Default window size
 // We'll keep the height but make it click-through in transparent areas
 const WINDOW_HEIGHT = 540;
+const WINDOW_WIDTH = 380;
+const WINDOW_SIZE = { width: WINDOW_WIDTH, height: WINDOW_HEIGHT };
 
 // Keep track of last resize request time and state
 let lastResizeTime = 0;
 let lastResizeState = false;
 let isResizing = false;
+// Set while we move the window ourselves, so it isn't saved as a user move
+let isMovingWindow = false;
+let windowPositionSaveTimer: NodeJS.Timeout | null = null;
 
-// Shortcut management
-const TARGET_SHORTCUT = 'CommandOrControl+Shift+R';
-const originalShortcutOwners: Map<string, boolean> = new Map();
-let shortcutsRestored = true;
+// The overlay is transparent and mostly click-through, which CSS drag regions don't
+// cope with, so while its handle is held the window follows the pointer instead
+let windowDragTimer: NodeJS.Timeout | null = null;
+const WINDOW_DRAG_INTERVAL = 16;
+
+// Parts of the window that take the mouse, in window coordinates, as reported by the renderer
+interface InteractiveRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+let interactiveRects: InteractiveRect[] = [];
+let lastMousePosition: WindowPosition | null = null;
+let isIgnoringMouse = true;
+
+// Electron only forwards mouse moves to a click-through window on macOS and
+// Windows, elsewhere the pointer position is polled instead
+const MOUSE_POLL_INTERVAL = 50;
+
+// Command line flags wait until the renderer has had time to set up its listeners
+const pendingLaunchCommands: LaunchCommand[] = [];
+let isReadyForLaunchCommands = false;
+const LAUNCH_COMMAND_DELAY = 1000;
+
+// Recording state reported by the renderer
+type ActivityState = 'idle' | 'recording' | 'transcribing';
+let recordingState: ActivityState = 'idle';
+
+// Shortcuts paused from the tray stay paused whatever the renderer asks
+let shortcutsPausedFromTray = false;
+
+// Transcripts offered for copying in the tray menu
+const TRAY_RECENT_TRANSCRIPTS = 5;
+
+// Push-to-talk hold. globalShortcut only reports key presses, so the release is
+// detected by the renderer's keyup while it has focus, or by key repeat drying up.
+// Key repeats start only after the OS repeat delay, don't reach global shortcuts at
+// all on macOS, and the renderer reports the ones it sees while it has focus.
+let pushToTalkActive = false;
+let pushToTalkReleaseTimer: NodeJS.Timeout | null = null;
+const PUSH_TO_TALK_REPEAT_TIMEOUT = 500;
+// Longer than the usual repeat delays, so a tap still ends the recording
+const PUSH_TO_TALK_FIRST_REPEAT_TIMEOUT = 1000;
+
+function moveWindow({ x, y }: WindowPosition) {
+  if (!mainWindow) return;
+  
+  isMovingWindow = true;
+  mainWindow.setPosition(x, y);
+  setTimeout(() => {
+    isMovingWindow = false;
+  }, 300);
+}
+
+// Put the overlay where it belongs on the display it is on, e.g. after the anchor changed
+function moveWindowToCurrentDisplay() {
+  if (!mainWindow) return;
+  
+  const display = screen.getDisplayMatching(mainWindow.getBounds());
+  moveWindow(getWindowPosition(display, WINDOW_SIZE));
+}
+
+// When recording starts, go to the display with the pointer or next to the pointer itself
+function moveWindowForRecording() {
+  if (!mainWindow || recordingState !== 'idle') return;
+  
+  const { windowAnchor, followCursorDisplay } = getSettings();
+  if (windowAnchor !== 'near-caret' && !followCursorDisplay) return;
+  
+  const cursorDisplay = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  const windowDisplay = screen.getDisplayMatching(mainWindow.getBounds());
+  if (windowAnchor === 'near-caret' || cursorDisplay.id !== windowDisplay.id) {
+    moveWindow(getWindowPosition(cursorDisplay, WINDOW_SIZE));
+  }
+}
+
+function startWindowDrag() {
+  if (!mainWindow || windowDragTimer) return;
+  
+  const cursor = screen.getCursorScreenPoint();
+  const [x, y] = mainWindow.getPosition();
+  const offset = { x: cursor.x - x, y: cursor.y - y };
+  windowDragTimer = setInterval(() => {
+    const point = screen.getCursorScreenPoint();
+    mainWindow?.setPosition(point.x - offset.x, point.y - offset.y);
+  }, WINDOW_DRAG_INTERVAL);
+}
+
+function endWindowDrag() {
+  if (!windowDragTimer) return;
+  
+  clearInterval(windowDragTimer);
+  windowDragTimer = null;
+  if (mainWindow) {
+    saveWindowPosition(mainWindow.getBounds());
+  }
+}
 
 // Function to resize the window
 function resizeWindow(expanded: boolean) {
@@ -61,26 +191,15 @@ function resizeWindow(expanded: boolean) {
     
     console.log(`Handling window state change: ${expanded ? 'expanded' : 'collapsed'} (height stays at ${newHeight}px)`);
     
-    // Keep same x position and height but adjust content visibility via IPC
-    // This ensures no resizing flicker
-    const display = screen.getDisplayMatching(bounds);
-    const workAreaHeight = display.workArea.height;
-    
-    // Only update position if it's needed (window moved or first positioning)
-    if (Math.abs(bounds.height - newHeight) > 5 || 
-        Math.abs(bounds.y - (workAreaHeight - newHeight - 10)) > 5) {
-      
-      const newBounds = {
-        x: bounds.x,
-        width: bounds.width,
-        height: newHeight,
-        y: workAreaHeight - newHeight - 10  // Always position at bottom of screen
-      };
+    // Content visibility is handled by the renderer, so this only puts the height right;
+    // the window stays wherever it was dragged or anchored
+    if (Math.abs(bounds.height - newHeight) > 5) {
+      const newBounds = { ...bounds, height: newHeight };
       
       console.log(`Updating bounds: x=${newBounds.x}, y=${newBounds.y}, width=${newBounds.width}, height=${newHeight}`);
       mainWindow.setBounds(newBounds, true); // Animate the resize
     } else {
-      console.log(`Skipping resize - window already at correct size and position`);
+      console.log(`Skipping resize - window already at correct size`);
     }
     
     // Reset resizing flag after a short delay
@@ -107,16 +226,15 @@ function createWindow() {
     console.log("Creating main application window");
     hasCreatedWindow = true;
     
-    // Get primary display dimensions
-    const primaryDisplay = screen.getPrimaryDisplay();
-    const { width, height } = primaryDisplay.workAreaSize;
+    // Reopen on the display the window was last dragged on, where it was left there
+    const position = getWindowPosition(getStartupDisplay(), WINDOW_SIZE);
     
     // Create the browser window with specific settings for an overlay
     mainWindow = new BrowserWindow({
-      width: 380,
+      width: WINDOW_WIDTH,
       height: WINDOW_HEIGHT, // Using expanded height from the start
-      x: Math.floor((width - 380) / 2),
-      y: Math.floor(height - WINDOW_HEIGHT - 10),
+      x: position.x,
+      y: position.y,
       frame: false,
       transparent: true,
       backgroundColor: '#00000000',
@@ -147,8 +265,12 @@ function createWindow() {
     mainWindow.setAlwaysOnTop(true, 'screen-saver', 2);
     mainWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
     
-    // Enable click-through for transparent parts of the window
+    // Enable click-through for transparent parts of the window until the
+    // new renderer reports where its controls are
     mainWindow.setIgnoreMouseEvents(true, { forward: true });
+    isIgnoringMouse = true;
+    interactiveRects = [];
+    lastMousePosition = null;
 
     // Load the URL
     const startUrl = process.env.ELECTRON_START_URL 
@@ -201,7 +323,27 @@ function createWindow() {
             console.log("Window is now visible");
           }
         }, 100);
+        
+        setTimeout(() => {
+          isReadyForLaunchCommands = true;
+          runLaunchCommands(pendingLaunchCommands.splice(0));
+        }, LAUNCH_COMMAND_DELAY);
+      }
+    });
+
+    // Remember where the user moves the window
+    mainWindow.on('moved', () => {
+      // Drags by the handle are saved when they end
+      if (isResizing || isMovingWindow || windowDragTimer) return;
+      
+      if (windowPositionSaveTimer) {
+        clearTimeout(windowPositionSaveTimer);
       }
+      windowPositionSaveTimer = setTimeout(() => {
+        if (mainWindow) {
+          saveWindowPosition(mainWindow.getBounds());
+        }
+      }, 500);
     });
 
     // Handle window close
@@ -212,146 +354,226 @@ function createWindow() {
 
     // Load the app URL - but don't show the window yet
     mainWindow.loadURL(startUrl);
-    
-    // Set up IPC listener for interactive regions
-    setupRegionBasedInteractivity();
   } catch (error) {
     console.error('Error creating window:', error);
     hasCreatedWindow = false;
   }
 }
 
-// Setup region-based interactivity (clickable areas)
-function setupRegionBasedInteractivity() {
-  if (!mainWindow) return;
+function setIgnoreMouse(ignore: boolean) {
+  if (!mainWindow || ignore === isIgnoringMouse) return;
   
-  // Listen for messages from the renderer about interactive regions
+  isIgnoringMouse = ignore;
+  if (ignore) {
+    // Keep receiving mouse moves, so we notice when the pointer reaches a region
+    mainWindow.setIgnoreMouseEvents(true, { forward: true });
+  } else {
+    mainWindow.setIgnoreMouseEvents(false);
+  }
+}
+
+// Take the mouse only while the pointer is over one of the interactive regions
+function hitTestMouse(x: number, y: number) {
+  lastMousePosition = { x, y };
+  const isOverRegion = interactiveRects.some(rect =>
+    x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height
+  );
+  setIgnoreMouse(!isOverRegion);
+}
+
+function isInteractiveRect(value: unknown): value is InteractiveRect {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  return [x, y, width, height].every(number => typeof number === 'number' && Number.isFinite(number));
+}
+
+// Setup region-based interactivity (clickable areas), once for whichever window is open
+function setupRegionBasedInteractivity() {
+  // The renderer reports where its visible controls are whenever the layout changes
   ipcMain.on('update-interactive-region', (_event, region) => {
-    if (!mainWindow) return;
+    if (!region || typeof region !== 'object') return;
     
-    if (region && typeof region === 'object') {
-      // If renderer sends a region, make the window click-through except in specified areas
-      try {
-        if (region.reset) {
-          // Reset to full click-through mode with mouse move detection
-          mainWindow.setIgnoreMouseEvents(true, { forward: true });
-          console.log("Reset to full click-through mode");
-        } else {
-          // Enable click-through except in specified regions
-          mainWindow.setIgnoreMouseEvents(false);
-          console.log("Interactive mode enabled");
-        }
-      } catch (error) {
-        console.error("Error updating interactive regions:", error);
+    if (region.reset) {
+      interactiveRects = [];
+      setIgnoreMouse(true);
+    } else if (Array.isArray(region.rects)) {
+      interactiveRects = region.rects.filter(isInteractiveRect);
+      // A panel may have opened or closed under the pointer
+      if (lastMousePosition) {
+        hitTestMouse(lastMousePosition.x, lastMousePosition.y);
       }
     }
   });
   
-  // Listen for mouse enter/leave events from renderer
-  ipcMain.on('mouse-event', (_event, type) => {
-    if (!mainWindow) return;
-    
-    if (type === 'enter') {
-      // Mouse entered an interactive element - disable click-through
-      mainWindow.setIgnoreMouseEvents(false);
-    } else if (type === 'leave') {
-      // Mouse left interactive elements - enable click-through with forwarding
-      mainWindow.setIgnoreMouseEvents(true, { forward: true });
+  // Mouse moves in window coordinates, forwarded while the window is click-through
+  ipcMain.on('mouse-move', (_event, x: unknown, y: unknown) => {
+    if (typeof x === 'number' && typeof y === 'number') {
+      hitTestMouse(x, y);
     }
   });
+  
+  if (process.platform !== 'darwin' && process.platform !== 'win32') {
+    setInterval(() => {
+      if (!mainWindow?.isVisible()) return;
+      
+      const cursor = screen.getCursorScreenPoint();
+      const bounds = mainWindow.getBounds();
+      hitTestMouse(cursor.x - bounds.x, cursor.y - bounds.y);
+    }, MOUSE_POLL_INTERVAL);
+  }
 }
 
-// Check if a shortcut is already registered by another application
-function isShortcutRegisteredExternally(shortcut: string): boolean {
-  try {
-    // Try to register the shortcut temporarily
-    const isRegistered = globalShortcut.register(shortcut, () => {
-      console.log('Checking if shortcut is registered externally');
-    });
-    
-    // If we were able to register it, unregister it and return false (not taken)
-    if (isRegistered) {
-      globalShortcut.unregister(shortcut);
-      return false;
-    }
-    
-    // If we couldn't register it, it's already taken
-    return true;
-  } catch (error) {
-    console.error('Error checking shortcut availability:', error);
-    return false; // Assume it's not taken in case of error
+// Bring the overlay to the front without losing track of the app the user was in
+function startRecording(options: { pushToTalk?: boolean } = {}) {
+  // Note the focused app before our window takes focus, for auto-paste
+  const pasteTargetRemembered = rememberPasteTarget();
+  
+  moveWindowForRecording();
+  mainWindow?.webContents.send('start-recording', options);
+  
+  // Also bring the window to front and focus it
+  if (mainWindow && !mainWindow.isVisible()) {
+    mainWindow.show();
   }
+  if (mainWindow) {
+    mainWindow.setAlwaysOnTop(true, 'screen-saver', 2);
+    setTimeout(() => {
+      pasteTargetRemembered.finally(() => mainWindow?.focus());
+    }, 50);
+  }
+}
+
+function stopRecording() {
+  clearPushToTalk();
+  mainWindow?.webContents.send('stop-recording');
 }
 
-// Store information about externally registered shortcuts
-function saveExternalShortcutState() {
+// Stop recording and discard the audio, nothing is transcribed
+function cancelRecording() {
+  clearPushToTalk();
+  mainWindow?.webContents.send('cancel-recording');
+}
+
+// Audio and video formats the transcription API accepts, matches utils/mediaFiles.ts
+const MEDIA_FILE_EXTENSIONS = ['flac', 'm4a', 'mp3', 'mp4', 'mpeg', 'mpga', 'oga', 'ogg', 'wav', 'webm'];
+
+// Read a file from disk and hand it to the renderer, which transcribes it like a recording
+async function transcribeFile(filePath: string): Promise<boolean> {
+  if (!mainWindow) {
+    return false;
+  }
+  // The renderer drops files that arrive while it records or transcribes
+  if (recordingState !== 'idle') {
+    console.warn(`Not transcribing ${filePath}: busy ${recordingState}`);
+    return false;
+  }
+
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (!MEDIA_FILE_EXTENSIONS.includes(extension)) {
+    console.warn(`Not transcribing ${filePath}: unsupported file type`);
+    return false;
+  }
+
   try {
-    // Check our target shortcut
-    const isExternallyRegistered = isShortcutRegisteredExternally(TARGET_SHORTCUT);
-    console.log(`Checking ${TARGET_SHORTCUT} - Registered externally: ${isExternallyRegistered}`);
-    
-    // Store the state
-    originalShortcutOwners.set(TARGET_SHORTCUT, isExternallyRegistered);
-    shortcutsRestored = false;
-    
-    return isExternallyRegistered;
+    const data = await fs.promises.readFile(filePath);
+    console.log(`Transcribing file ${filePath} (${data.length} bytes)`);
+    mainWindow.webContents.send('transcribe-file', { name: path.basename(filePath), data });
   } catch (error) {
-    console.error('Error saving external shortcut state:', error);
+    console.error('Error reading file for transcription:', error);
     return false;
   }
+
+  if (!mainWindow.isVisible()) {
+    mainWindow.show();
+  }
+  return true;
+}
+
+// Act on --start, --stop, --cancel and --transcribe-file, from our own command line or a second launch
+function runLaunchCommands(commands: LaunchCommand[]) {
+  if (!isReadyForLaunchCommands) {
+    pendingLaunchCommands.push(...commands);
+    return;
+  }
+  
+  for (const command of commands) {
+    console.log(`Running launch command: ${command.type}`);
+    switch (command.type) {
+      case 'start':
+        if (recordingState === 'idle') {
+          startRecording();
+        }
+        break;
+      case 'stop':
+        stopRecording();
+        break;
+      case 'cancel':
+        cancelRecording();
+        break;
+      case 'transcribeFile':
+        transcribeFile(command.filePath).then(started => {
+          if (!started) {
+            console.warn(`Could not transcribe ${command.filePath}`);
+          }
+        });
+        break;
+    }
+  }
+}
+
+function clearPushToTalk() {
+  pushToTalkActive = false;
+  if (pushToTalkReleaseTimer) {
+    clearTimeout(pushToTalkReleaseTimer);
+    pushToTalkReleaseTimer = null;
+  }
+}
+
+// Stop recording unless another key repeat arrives in time
+function armPushToTalkRelease(timeout: number) {
+  if (pushToTalkReleaseTimer) {
+    clearTimeout(pushToTalkReleaseTimer);
+  }
+  pushToTalkReleaseTimer = setTimeout(releasePushToTalk, timeout);
+}
+
+// The push-to-talk shortcut fires once on press and again for every key repeat
+function pressPushToTalk() {
+  if (!pushToTalkActive) {
+    if (recordingState !== 'idle') return;
+    pushToTalkActive = true;
+    startRecording({ pushToTalk: true });
+    armPushToTalkRelease(PUSH_TO_TALK_FIRST_REPEAT_TIMEOUT);
+    return;
+  }
+  
+  // Still held - stop once the repeats stop coming
+  armPushToTalkRelease(PUSH_TO_TALK_REPEAT_TIMEOUT);
+}
+
+function releasePushToTalk() {
+  if (!pushToTalkActive) return;
+  console.log('Push-to-talk released');
+  stopRecording();
 }
 
 // Register global keyboard shortcuts with high priority
 function registerShortcuts() {
   try {
-    // First, save the state of any external shortcuts
-    const wasExternallyRegistered = saveExternalShortcutState();
-    
-    // Unregister any existing registrations of our target shortcut
-    // This will force our registration to take precedence
-    globalShortcut.unregister(TARGET_SHORTCUT);
-    
-    // Give the system a moment to release the shortcut
-    setTimeout(() => {
-      // Register our Ctrl+Shift+R with high priority
-      const success = globalShortcut.register(TARGET_SHORTCUT, () => {
-        try {
-          console.log('Ctrl+Shift+R shortcut triggered');
-          mainWindow?.webContents.send('start-recording');
-          
-          // Also bring the window to front and focus it
-          if (mainWindow && !mainWindow.isVisible()) {
-            mainWindow.show();
-          }
-          if (mainWindow) {
-            mainWindow.setAlwaysOnTop(true, 'screen-saver', 2);
-            setTimeout(() => {
-              mainWindow?.focus();
-            }, 50);
-          }
-        } catch (error) {
-          console.error('Error in start recording shortcut:', error);
+    setShortcutHandlers({
+      start: startRecording,
+      stop: stopRecording,
+      cancel: cancelRecording,
+      toggle: () => {
+        if (recordingState === 'recording') {
+          stopRecording();
+        } else if (recordingState === 'idle') {
+          startRecording();
         }
-      });
-      
-      console.log(`Registered ${TARGET_SHORTCUT} shortcut: ${success}`);
-      
-      if (!success && wasExternallyRegistered) {
-        // If registration failed and we know it was externally registered,
-        // show a notification or log the issue
-        console.error(`Failed to register ${TARGET_SHORTCUT} - it might be used by another application`);
-        // You could notify the user here if desired
-      }
-    }, 100);
-
-    // Esc to stop recording
-    globalShortcut.register('Escape', () => {
-      try {
-        mainWindow?.webContents.send('stop-recording');
-      } catch (error) {
-        console.error('Error in stop recording shortcut:', error);
-      }
+      },
+      pushToTalk: pressPushToTalk
     });
+    registerActionShortcuts();
 
     // Ctrl+Shift+I to toggle DevTools in dev mode
     if (isDev) {
@@ -364,22 +586,9 @@ function registerShortcuts() {
 
 // Restore original shortcut state when app quits
 function restoreShortcuts() {
-  if (shortcutsRestored) return;
-  
-  try {
-    console.log('Restoring original shortcut registrations');
-    
-    // Unregister our shortcuts
-    globalShortcut.unregister(TARGET_SHORTCUT);
-    globalShortcut.unregister('Escape');
-    if (isDev) {
-      globalShortcut.unregister('CommandOrControl+Shift+I');
-    }
-    
-    shortcutsRestored = true;
-    console.log('Shortcuts restored successfully');
-  } catch (error) {
-    console.error('Error restoring shortcuts:', error);
+  restoreActionShortcuts();
+  if (isDev) {
+    globalShortcut.unregister('CommandOrControl+Shift+I');
   }
 }
 
@@ -400,11 +609,229 @@ function toggleDevTools() {
   }
 }
 
+// Let the renderer and the tray know the history changed
+function notifyHistoryChanged() {
+  mainWindow?.webContents.send('history-changed');
+  refreshTrayTranscripts();
+}
+
+function refreshTrayTranscripts() {
+  updateTray({
+    recentTranscripts: listHistory(TRAY_RECENT_TRANSCRIPTS).map(({ id, text }) => ({ id, text }))
+  });
+}
+
+// Tray icon with the recording state and a menu for when the overlay is out of the way
+function setupTray() {
+  createTray({
+    startRecording: () => startRecording(),
+    stopRecording,
+    cancelRecording,
+    // The renderer follows the settings and records from it next time
+    selectMicrophone: (deviceId) => updateSettings({ microphoneId: deviceId }),
+    copyTranscript: (id) => {
+      const entry = getHistoryEntry(id);
+      if (entry) {
+        clipboard.writeText(entry.text);
+        console.log(`Copied history entry ${id} to clipboard from the tray`);
+      }
+    },
+    showWindow: () => mainWindow?.show(),
+    openSettings: () => {
+      mainWindow?.show();
+      mainWindow?.webContents.send('open-settings');
+    },
+    setShortcutsPaused: (paused) => {
+      shortcutsPausedFromTray = paused;
+      setShortcutsPaused(paused);
+      updateTray({ shortcutsPaused: paused });
+    },
+    quit: () => app.quit()
+  });
+  refreshTrayTranscripts();
+}
+
+// Local JSON-RPC socket for scripts, editor plugins and window manager keybindings
+function setupControlServer() {
+  startControlServer({
+    start: () => {
+      if (recordingState === 'idle') {
+        startRecording();
+      }
+    },
+    stop: stopRecording,
+    cancel: cancelRecording,
+    status: () => ({ state: recordingState, shortcutsPaused: shortcutsPausedFromTray }),
+    lastTranscript: () => {
+      const [entry] = listHistory(1);
+      return entry ? { id: entry.id, text: entry.text, timestamp: entry.timestamp } : null;
+    },
+    transcribeFile: async (filePath) => {
+      // Say why, a script may want to try again later
+      if (recordingState !== 'idle') {
+        throw new Error(`Busy ${recordingState}, try again when the state is idle`);
+      }
+      return transcribeFile(filePath);
+    }
+  }).then((socketPath) => {
+    console.log(`Control server listening on ${socketPath}`);
+  }).catch((error) => {
+    // Scripts relying on the socket would otherwise fail without a hint why
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Could not start the control server:', error);
+    if (Notification.isSupported()) {
+      new Notification({ title: 'Control socket unavailable', body: message }).show();
+    }
+  });
+}
+
 // Handle IPC events from renderer
 function setupIPC() {
   // Handle transcription completion
-  ipcMain.on('transcription-complete', (_event, text) => {
-    clipboard.writeText(text);
+  ipcMain.on('transcription-complete', (_event, outcome: unknown) => {
+    if (!isTranscriptionOutcome(outcome)) {
+      console.warn('Ignoring malformed transcription result:', outcome);
+      return;
+    }
+    
+    // Scripts get the text too, without the recording details
+    if (outcome.status === 'success') {
+      broadcastControlEvent({ type: 'transcription', status: 'success', text: outcome.text });
+    } else {
+      broadcastControlEvent({ type: 'transcription', ...outcome });
+    }
+    
+    // The renderer shows failures itself, the clipboard only gets real transcripts
+    if (outcome.status !== 'success') {
+      console.log(`Transcription ${outcome.status === 'empty' ? `empty (${outcome.reason})` : `failed (${outcome.code})`}:`, outcome.message);
+      
+      // Errors shouldn't go unnoticed when the window isn't in front
+      if (outcome.status === 'error') {
+        updateTray({ lastError: outcome.message });
+        if (!mainWindow?.isFocused() && Notification.isSupported()) {
+          new Notification({ title: 'Transcription failed', body: outcome.message }).show();
+        }
+      }
+      return;
+    }
+    updateTray({ lastError: null });
+    
+    const { text, metadata } = outcome;
+    if (!text.trim()) {
+      return;
+    }
+    
+    deliverTranscription(text).catch(error => {
+      console.error('Error delivering transcription:', error);
+    });
+    
+    try {
+      addHistoryEntry(text, metadata);
+      notifyHistoryChanged();
+    } catch (error) {
+      console.error('Error saving transcription to history:', error);
+    }
+  });
+  
+  // Persistent settings shared with the renderer
+  ipcMain.handle('settings-get', () => {
+    return getSettings();
+  });
+  
+  ipcMain.handle('settings-set', (_event, changes: SettingsChanges) => {
+    if (!changes || typeof changes !== 'object') {
+      return { settings: getSettings() };
+    }
+    
+    // Shortcuts go through the registry, which refuses invalid or duplicate ones.
+    // The renderer gets its verdict to show, the other changes are saved regardless.
+    const { shortcuts, ...rest } = changes;
+    const shortcutResult = shortcuts
+      ? saveShortcutBindings({ ...getSettings().shortcuts, ...shortcuts })
+      : undefined;
+    
+    const updated = updateSettings(rest);
+    if (rest.windowPositions || rest.windowAnchor) {
+      moveWindowToCurrentDisplay();
+    }
+    return { settings: updated, shortcuts: shortcutResult };
+  });
+  
+  // Keep the renderer in sync however settings were changed
+  onSettingsChanged((settings) => {
+    mainWindow?.webContents.send('settings-changed', settings);
+  });
+  
+  // Transcription history
+  ipcMain.handle('history-list', (_event, limit?: number) => {
+    return listHistory(limit);
+  });
+  
+  ipcMain.handle('history-search', (_event, query: string, limit?: number) => {
+    return searchHistory(typeof query === 'string' ? query : '', limit);
+  });
+  
+  ipcMain.handle('history-delete', (_event, id: string) => {
+    const deleted = deleteHistoryEntry(id);
+    if (deleted) {
+      notifyHistoryChanged();
+    }
+    return deleted;
+  });
+  
+  ipcMain.handle('history-copy', (_event, id: string, raw?: boolean) => {
+    const entry = getHistoryEntry(id);
+    if (!entry) {
+      console.warn(`History entry not found: ${id}`);
+      return false;
+    }
+    // The unrefined transcript, if the entry went through a refine mode
+    clipboard.writeText(raw && entry.rawText ? entry.rawText : entry.text);
+    console.log(`Copied history entry ${id} to clipboard`);
+    return true;
+  });
+  
+  // Save an exported transcript (subtitles, notes) where the user picks
+  ipcMain.handle('transcript-save', async (_event, content: string, fileName: string) => {
+    if (typeof content !== 'string' || typeof fileName !== 'string') {
+      return null;
+    }
+    
+    const extension = path.extname(fileName).slice(1);
+    const options: Electron.SaveDialogOptions = {
+      defaultPath: path.join(app.getPath('documents'), path.basename(fileName)),
+      filters: extension ? [{ name: extension.toUpperCase(), extensions: [extension] }] : []
+    };
+    const result = mainWindow
+      ? await dialog.showSaveDialog(mainWindow, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    
+    try {
+      await fs.promises.writeFile(result.filePath, content, 'utf8');
+      console.log(`Saved transcript to ${result.filePath}`);
+      return result.filePath;
+    } catch (error) {
+      console.error('Error saving transcript:', error);
+      throw error;
+    }
+  });
+
+  // Pick an audio or video file to transcribe, resolves false if none was picked
+  ipcMain.handle('transcribe-file-pick', async () => {
+    const options: Electron.OpenDialogOptions = {
+      properties: ['openFile'],
+      filters: [{ name: 'Audio and video', extensions: MEDIA_FILE_EXTENSIONS }]
+    };
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, options)
+      : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return false;
+    }
+    return transcribeFile(result.filePaths[0]);
   });
 
   // Set up IPC for window sizing - only allow if content is fully loaded
@@ -441,7 +868,7 @@ function setupIPC() {
   
   // Add handler to check shortcut registration status
   ipcMain.on('check-shortcut-registration', (event) => {
-    const isRegistered = globalShortcut.isRegistered(TARGET_SHORTCUT);
+    const isRegistered = isActionShortcutRegistered('start');
     console.log(`Checking if shortcut is registered: ${isRegistered}`);
     event.reply('shortcut-registration-result', isRegistered);
   });
@@ -460,6 +887,66 @@ function setupIPC() {
     event.reply('shortcuts-refreshed');
   });
   
+  // User-configurable shortcuts
+  ipcMain.handle('shortcuts-check', (_event, candidate: ShortcutBindings) => {
+    return findShortcutConflicts(candidate);
+  });
+  
+  ipcMain.handle('shortcuts-set', (_event, candidate: ShortcutBindings) => {
+    return saveShortcutBindings(candidate);
+  });
+  
+  ipcMain.on('shortcuts-pause', (_event, paused: boolean) => {
+    setShortcutsPaused(paused === true || shortcutsPausedFromTray);
+  });
+  
+  // Click-through outside the controls the renderer reports
+  setupRegionBasedInteractivity();
+  
+  // The renderer holds the drag handle, the window follows the pointer meanwhile
+  ipcMain.on('window-drag-start', () => startWindowDrag());
+  ipcMain.on('window-drag-end', () => endWindowDrag());
+  
+  // A display went away with the overlay on it
+  screen.on('display-removed', () => {
+    if (!mainWindow) return;
+    
+    if (!isOnScreen(mainWindow.getBounds())) {
+      moveWindow(getWindowPosition(screen.getPrimaryDisplay(), WINDOW_SIZE));
+    }
+  });
+  
+  // Keep track of what the renderer is doing, so toggle knows whether to start or stop
+  ipcMain.on('recording-state', (_event, state: ActivityState) => {
+    if (state === 'idle' || state === 'recording' || state === 'transcribing') {
+      recordingState = state;
+      updateTray({ activity: state });
+      broadcastControlEvent({ type: 'state', state });
+    }
+  });
+  
+  // The renderer lists the microphones, the tray offers them
+  ipcMain.on('microphones-changed', (_event, microphones: unknown, selectedId: unknown) => {
+    if (!Array.isArray(microphones) || typeof selectedId !== 'string') return;
+    
+    const valid = microphones.filter((microphone): microphone is TrayMicrophone =>
+      !!microphone && typeof microphone.deviceId === 'string' && typeof microphone.name === 'string'
+    );
+    updateTray({ microphones: valid, selectedMicrophoneId: selectedId });
+  });
+  
+  // The renderer saw the push-to-talk keys being let go
+  ipcMain.on('push-to-talk-release', () => {
+    releasePushToTalk();
+  });
+  
+  // The renderer saw the push-to-talk keys repeat, so they are still held
+  ipcMain.on('push-to-talk-hold', () => {
+    if (pushToTalkActive) {
+      armPushToTalkRelease(PUSH_TO_TALK_REPEAT_TIMEOUT);
+    }
+  });
+  
   // Add handler for microphone info logging
   ipcMain.on('log-microphone-info', (_event, label: string) => {
     // Extract a clean display name from the label
@@ -486,12 +973,33 @@ function setupIPC() {
   });
 }
 
+// One overlay at a time: a second launch hands its command line to the first and exits
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) {
+  console.log('VibeTranscribe is already running, passing the command line to it');
+  app.quit();
+} else {
+  app.on('second-instance', (_event, argv, workingDirectory) => {
+    const commands = parseLaunchCommands(argv, workingDirectory);
+    // Launching it again without flags brings the overlay back
+    if (commands.length === 0) {
+      mainWindow?.show();
+    }
+    runLaunchCommands(commands);
+  });
+}
+
 // When Electron is ready, create window
 app.whenReady().then(() => {
+  if (!hasInstanceLock) return;
+  
   try {
     createWindow();
     registerShortcuts();
     setupIPC();
+    setupTray();
+    setupControlServer();
+    runLaunchCommands(parseLaunchCommands(process.argv, process.cwd()));
   } catch (error) {
     console.error('Error in app.whenReady:', error);
   }
@@ -501,13 +1009,16 @@ app.whenReady().then(() => {
 
 // Handle app activation (macOS)
 app.on('activate', () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
+  if (hasInstanceLock && BrowserWindow.getAllWindows().length === 0) {
     createWindow();
   }
 });
 
 // Clean up when app is quitting
 app.on('will-quit', () => {
+  destroyTray();
+  stopControlServer();
+  
   // Restore original shortcut state
   restoreShortcuts();
   
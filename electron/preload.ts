@@ -4,8 +4,8 @@ import { contextBridge, ipcRenderer } from 'electron';
 // the ipcRenderer without exposing all of its capabilities
 contextBridge.exposeInMainWorld('electronAPI', {
   // Send methods (from renderer to main)
-  sendTranscriptionComplete: (text: string) => {
-    ipcRenderer.send('transcription-complete', text);
+  sendTranscriptionComplete: (outcome: { status: 'success' | 'empty' | 'error' }) => {
+    ipcRenderer.send('transcription-complete', outcome);
   },
   setWindowSize: (expanded: boolean) => {
     ipcRenderer.send('set-window-size', expanded);
@@ -32,19 +32,74 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.send('refresh-shortcuts');
     });
   },
-  sendMouseEvent: (type: 'enter' | 'leave') => {
-    ipcRenderer.send('mouse-event', type);
+  checkShortcutConflicts: (bindings: Record<string, string>) => {
+    return ipcRenderer.invoke('shortcuts-check', bindings);
   },
-  updateInteractiveRegion: (region: { reset?: boolean } | null) => {
+  setShortcutBindings: (bindings: Record<string, string>) => {
+    return ipcRenderer.invoke('shortcuts-set', bindings);
+  },
+  setShortcutsPaused: (paused: boolean) => {
+    ipcRenderer.send('shortcuts-pause', paused);
+  },
+  sendRecordingState: (state: 'idle' | 'recording' | 'transcribing') => {
+    ipcRenderer.send('recording-state', state);
+  },
+  sendMicrophones: (microphones: { deviceId: string; name: string }[], selectedId: string) => {
+    ipcRenderer.send('microphones-changed', microphones, selectedId);
+  },
+  releasePushToTalk: () => {
+    ipcRenderer.send('push-to-talk-release');
+  },
+  holdPushToTalk: () => {
+    ipcRenderer.send('push-to-talk-hold');
+  },
+  sendMousePosition: (x: number, y: number) => {
+    ipcRenderer.send('mouse-move', x, y);
+  },
+  updateInteractiveRegion: (region: { rects?: { x: number; y: number; width: number; height: number }[]; reset?: boolean } | null) => {
     ipcRenderer.send('update-interactive-region', region);
   },
+  startWindowDrag: () => {
+    ipcRenderer.send('window-drag-start');
+  },
+  endWindowDrag: () => {
+    ipcRenderer.send('window-drag-end');
+  },
   logMicrophoneInfo: (label: string) => {
     ipcRenderer.send('log-microphone-info', label);
   },
 
+  // Persistent settings
+  getSettings: () => {
+    return ipcRenderer.invoke('settings-get');
+  },
+  setSettings: (changes: Record<string, unknown>) => {
+    return ipcRenderer.invoke('settings-set', changes);
+  },
+
+  // Transcription history (request/response through invoke)
+  getHistory: (limit?: number) => {
+    return ipcRenderer.invoke('history-list', limit);
+  },
+  searchHistory: (query: string, limit?: number) => {
+    return ipcRenderer.invoke('history-search', query, limit);
+  },
+  deleteHistoryEntry: (id: string) => {
+    return ipcRenderer.invoke('history-delete', id);
+  },
+  copyHistoryEntry: (id: string, raw?: boolean) => {
+    return ipcRenderer.invoke('history-copy', id, raw);
+  },
+  saveTranscript: (content: string, fileName: string) => {
+    return ipcRenderer.invoke('transcript-save', content, fileName);
+  },
+  pickFileForTranscription: () => {
+    return ipcRenderer.invoke('transcribe-file-pick');
+  },
+
   // Receive methods (from main to renderer)
-  onStartRecording: (callback: () => void) => {
-    const listener = () => callback();
+  onStartRecording: (callback: (options: { pushToTalk?: boolean }) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, options?: { pushToTalk?: boolean }) => callback(options || {});
     ipcRenderer.on('start-recording', listener);
     return () => {
       ipcRenderer.removeListener('start-recording', listener);
@@ -56,5 +111,40 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => {
       ipcRenderer.removeListener('stop-recording', listener);
     };
+  },
+  onCancelRecording: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('cancel-recording', listener);
+    return () => {
+      ipcRenderer.removeListener('cancel-recording', listener);
+    };
+  },
+  onTranscribeFile: (callback: (file: { name: string; data: Uint8Array }) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, file: { name: string; data: Uint8Array }) => callback(file);
+    ipcRenderer.on('transcribe-file', listener);
+    return () => {
+      ipcRenderer.removeListener('transcribe-file', listener);
+    };
+  },
+  onOpenSettings: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('open-settings', listener);
+    return () => {
+      ipcRenderer.removeListener('open-settings', listener);
+    };
+  },
+  onSettingsChanged: (callback: (settings: Record<string, unknown>) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, settings: Record<string, unknown>) => callback(settings);
+    ipcRenderer.on('settings-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('settings-changed', listener);
+    };
+  },
+  onHistoryChanged: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('history-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('history-changed', listener);
+    };
   }
 }); 
\ No newline at end of file
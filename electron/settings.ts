@@ -0,0 +1,286 @@
+import { app } from 'electron';
+import * as path from 'path';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// Actions that can be bound to a global shortcut
+export type ShortcutAction = 'start' | 'stop' | 'cancel' | 'toggle' | 'pushToTalk';
+
+// Electron accelerator for each action, empty string when unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface AutoPasteOptions {
+  enabled: boolean; // Paste into the previously focused app after transcribing
+  restoreClipboard: boolean; // Put the previous clipboard contents back after pasting
+}
+
+// A term the transcript should always spell one way, applied by lib/transcription/glossary.ts
+export interface GlossaryEntry {
+  term: string; // Correct spelling, also sent to the model as vocabulary
+  variants: string[]; // Misrecognitions replaced with the term
+  caseSensitive: boolean; // Only replace variants with exactly this casing, otherwise any casing
+  wholeWord: boolean; // Don't replace inside longer words
+}
+
+export interface VoiceCommandOptions {
+  enabled: boolean; // Turn phrases such as "new line" or "comma" into formatting
+  language: string; // Language of the phrases, empty to follow the transcription language
+}
+
+export interface WindowPosition {
+  x: number;
+  y: number;
+}
+
+// Where the overlay was dragged to on one display
+export interface SavedWindowPosition extends WindowPosition {
+  displayId: string;
+}
+
+// Where the overlay goes on a display it hasn't been dragged on
+export type WindowAnchor = 'bottom-center' | 'top-right' | 'near-caret';
+
+// Everything the user can change, persisted in userData/settings.json
+export interface Settings {
+  provider: string; // Transcription provider id, empty for the server default
+  model: string; // Transcription model, empty for the provider default
+  localModelPath: string; // ggml model file for the local provider, empty for the server's LOCAL_WHISPER_MODEL_PATH
+  localBinaryPath: string; // whisper.cpp program for the local provider, empty for the server's WHISPER_CPP_PATH
+  language: string; // Spoken language code, empty to auto-detect
+  translate: boolean; // Output English whatever language is spoken
+  prompt: string; // Vocabulary and style hint sent with every transcription
+  temperature: number; // Sampling temperature between 0 and 1
+  glossary: GlossaryEntry[]; // Product names, people and identifiers to spell correctly
+  refineMode: string; // Rewrite preset applied after transcribing, empty to copy the transcript as is
+  refineModel: string; // Chat model for refinement, empty for the server default
+  timestamps: '' | 'segment' | 'word'; // Timestamps kept for subtitle export, empty for none
+  microphoneId: string; // Input device id, empty for the first available device
+  liveTranscription: boolean; // Transcribe chunks at pauses while recording
+  typingSpeed: number; // Milliseconds per character of the transcription animation
+  silenceThreshold: number; // Quietest input that can be speech, in dB above -60 dBFS
+  vadHangoverMs: number; // Pause between words still counted as speech
+  autoStopSeconds: number; // Stop recording after this much silence following speech, 0 to keep going
+  trimSilence: boolean; // Cut silence before and after the words before transcribing
+  windowPositions: SavedWindowPosition[]; // Where the overlay was dragged to on each display, most recent first
+  windowAnchor: WindowAnchor;
+  followCursorDisplay: boolean; // Move the overlay to the display with the mouse pointer when recording starts
+  voiceCommands: VoiceCommandOptions;
+  autoPaste: AutoPasteOptions;
+  shortcuts: ShortcutBindings;
+}
+
+// Nested groups can be changed one field at a time
+export type SettingsChanges = Partial<Omit<Settings, 'voiceCommands' | 'autoPaste' | 'shortcuts'>> & {
+  voiceCommands?: Partial<VoiceCommandOptions>;
+  autoPaste?: Partial<AutoPasteOptions>;
+  shortcuts?: Partial<ShortcutBindings>;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: '',
+  model: '',
+  localModelPath: '',
+  localBinaryPath: '',
+  language: '',
+  translate: false,
+  prompt: '',
+  temperature: 0,
+  glossary: [],
+  refineMode: '',
+  refineModel: '',
+  timestamps: '',
+  microphoneId: '',
+  liveTranscription: false,
+  typingSpeed: 10,
+  silenceThreshold: 10,
+  vadHangoverMs: 300,
+  autoStopSeconds: 0,
+  trimSilence: true,
+  windowPositions: [],
+  windowAnchor: 'bottom-center',
+  followCursorDisplay: false,
+  voiceCommands: {
+    enabled: false,
+    language: ''
+  },
+  autoPaste: {
+    enabled: false,
+    restoreClipboard: false
+  },
+  shortcuts: {
+    start: 'CommandOrControl+Shift+R',
+    stop: 'Escape',
+    cancel: '',
+    toggle: '',
+    pushToTalk: ''
+  }
+};
+
+const TYPING_SPEED_RANGE = { min: 0, max: 100 };
+const SILENCE_THRESHOLD_RANGE = { min: 1, max: 100 };
+const VAD_HANGOVER_RANGE = { min: 100, max: 2000 };
+const AUTO_STOP_RANGE = { min: 0, max: 60 };
+// Whisper only looks at the last 224 tokens of a prompt
+const MAX_PROMPT_LENGTH = 1000;
+const MAX_GLOSSARY_ENTRIES = 200;
+const MAX_WINDOW_POSITIONS = 20;
+const WINDOW_ANCHORS: WindowAnchor[] = ['bottom-center', 'top-right', 'near-caret'];
+
+let settings: Settings | null = null;
+const listeners: Set<(settings: Settings) => void> = new Set();
+
+function getSettingsPath(): string {
+  return path.join(app.getPath('userData'), 'settings.json');
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, Math.round(value)));
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function sanitizeGlossary(value: unknown[]): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  for (const item of value.slice(0, MAX_GLOSSARY_ENTRIES)) {
+    if (!item || typeof item !== 'object') continue;
+    const { term, variants, caseSensitive, wholeWord } = item as Record<string, unknown>;
+    if (typeof term !== 'string' || !term.trim()) continue;
+
+    entries.push({
+      term: term.trim(),
+      variants: Array.isArray(variants)
+        ? variants.filter((variant): variant is string => typeof variant === 'string' && !!variant.trim())
+            .map(variant => variant.trim())
+        : [],
+      caseSensitive: caseSensitive === true,
+      wholeWord: wholeWord !== false
+    });
+  }
+  return entries;
+}
+
+function sanitizeWindowPositions(value: unknown[]): SavedWindowPosition[] {
+  const positions: SavedWindowPosition[] = [];
+  for (const item of value.slice(0, MAX_WINDOW_POSITIONS)) {
+    if (!item || typeof item !== 'object') continue;
+    const { displayId, x, y } = item as Record<string, unknown>;
+    if (typeof displayId === 'string' && isFiniteNumber(x) && isFiniteNumber(y)) {
+      positions.push({ displayId, x: Math.round(x), y: Math.round(y) });
+    }
+  }
+  return positions;
+}
+
+// Keep only the fields of a change that have the right type, e.g. from the renderer or an old file
+function sanitizeChanges(changes: unknown): SettingsChanges {
+  const accepted: SettingsChanges = {};
+  if (!changes || typeof changes !== 'object') return accepted;
+  const input = changes as Record<string, unknown>;
+
+  if (typeof input.provider === 'string') accepted.provider = input.provider.trim();
+  if (typeof input.model === 'string') accepted.model = input.model.trim();
+  if (typeof input.localModelPath === 'string') accepted.localModelPath = input.localModelPath.trim();
+  if (typeof input.localBinaryPath === 'string') accepted.localBinaryPath = input.localBinaryPath.trim();
+  if (typeof input.language === 'string' && /^([a-z]{2,3})?$/.test(input.language)) {
+    accepted.language = input.language;
+  }
+  if (typeof input.translate === 'boolean') accepted.translate = input.translate;
+  if (typeof input.prompt === 'string') accepted.prompt = input.prompt.slice(0, MAX_PROMPT_LENGTH);
+  if (isFiniteNumber(input.temperature)) {
+    accepted.temperature = Math.min(1, Math.max(0, Math.round(input.temperature * 10) / 10));
+  }
+  if (Array.isArray(input.glossary)) accepted.glossary = sanitizeGlossary(input.glossary);
+  if (typeof input.refineMode === 'string' && /^[a-z]*$/.test(input.refineMode)) {
+    accepted.refineMode = input.refineMode;
+  }
+  if (typeof input.refineModel === 'string') accepted.refineModel = input.refineModel.trim();
+  if (input.timestamps === '' || input.timestamps === 'segment' || input.timestamps === 'word') {
+    accepted.timestamps = input.timestamps;
+  }
+  if (typeof input.microphoneId === 'string') accepted.microphoneId = input.microphoneId;
+  if (typeof input.liveTranscription === 'boolean') accepted.liveTranscription = input.liveTranscription;
+  if (isFiniteNumber(input.typingSpeed)) accepted.typingSpeed = clamp(input.typingSpeed, TYPING_SPEED_RANGE);
+  if (isFiniteNumber(input.silenceThreshold)) {
+    accepted.silenceThreshold = clamp(input.silenceThreshold, SILENCE_THRESHOLD_RANGE);
+  }
+  if (isFiniteNumber(input.vadHangoverMs)) accepted.vadHangoverMs = clamp(input.vadHangoverMs, VAD_HANGOVER_RANGE);
+  if (isFiniteNumber(input.autoStopSeconds)) accepted.autoStopSeconds = clamp(input.autoStopSeconds, AUTO_STOP_RANGE);
+  if (typeof input.trimSilence === 'boolean') accepted.trimSilence = input.trimSilence;
+
+  if (Array.isArray(input.windowPositions)) {
+    accepted.windowPositions = sanitizeWindowPositions(input.windowPositions);
+  }
+  if (WINDOW_ANCHORS.includes(input.windowAnchor as WindowAnchor)) {
+    accepted.windowAnchor = input.windowAnchor as WindowAnchor;
+  }
+  if (typeof input.followCursorDisplay === 'boolean') accepted.followCursorDisplay = input.followCursorDisplay;
+
+  if (input.voiceCommands && typeof input.voiceCommands === 'object') {
+    const voiceCommands = input.voiceCommands as Record<string, unknown>;
+    accepted.voiceCommands = {};
+    if (typeof voiceCommands.enabled === 'boolean') accepted.voiceCommands.enabled = voiceCommands.enabled;
+    if (typeof voiceCommands.language === 'string' && /^([a-z]{2,3})?$/.test(voiceCommands.language)) {
+      accepted.voiceCommands.language = voiceCommands.language;
+    }
+  }
+
+  if (input.autoPaste && typeof input.autoPaste === 'object') {
+    const autoPaste = input.autoPaste as Record<string, unknown>;
+    accepted.autoPaste = {};
+    if (typeof autoPaste.enabled === 'boolean') accepted.autoPaste.enabled = autoPaste.enabled;
+    if (typeof autoPaste.restoreClipboard === 'boolean') {
+      accepted.autoPaste.restoreClipboard = autoPaste.restoreClipboard;
+    }
+  }
+
+  if (input.shortcuts && typeof input.shortcuts === 'object') {
+    const shortcuts = input.shortcuts as Record<string, unknown>;
+    accepted.shortcuts = {};
+    for (const action of Object.keys(DEFAULT_SETTINGS.shortcuts) as ShortcutAction[]) {
+      const accelerator = shortcuts[action];
+      if (typeof accelerator === 'string') accepted.shortcuts[action] = accelerator.trim();
+    }
+  }
+
+  return accepted;
+}
+
+function applyChanges(base: Settings, changes: SettingsChanges): Settings {
+  return {
+    ...base,
+    ...changes,
+    voiceCommands: { ...base.voiceCommands, ...changes.voiceCommands },
+    autoPaste: { ...base.autoPaste, ...changes.autoPaste },
+    shortcuts: { ...base.shortcuts, ...changes.shortcuts }
+  };
+}
+
+export function getSettings(): Settings {
+  if (!settings) {
+    settings = applyChanges(DEFAULT_SETTINGS, sanitizeChanges(readJsonFile<unknown>(getSettingsPath(), {})));
+  }
+  return settings;
+}
+
+// Validate, merge and persist changes, then let listeners know
+export function updateSettings(changes: SettingsChanges): Settings {
+  settings = applyChanges(getSettings(), sanitizeChanges(changes));
+  writeJsonFile(getSettingsPath(), settings);
+
+  for (const listener of listeners) {
+    try {
+      listener(settings);
+    } catch (error) {
+      console.error('Error in settings listener:', error);
+    }
+  }
+  return settings;
+}
+
+export function onSettingsChanged(listener: (settings: Settings) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
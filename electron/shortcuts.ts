@@ -0,0 +1,262 @@
+import { globalShortcut } from 'electron';
+import { DEFAULT_SETTINGS, getSettings, ShortcutAction, ShortcutBindings, updateSettings } from './settings';
+
+export interface ShortcutConflict {
+  action: ShortcutAction;
+  accelerator: string;
+  // invalid and duplicate bindings can't be saved, external ones only warrant a warning
+  reason: 'invalid' | 'duplicate' | 'external';
+  message: string;
+}
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['start', 'stop', 'cancel', 'toggle', 'pushToTalk'];
+
+const MODIFIERS = new Set([
+  'command', 'cmd', 'control', 'ctrl', 'commandorcontrol', 'cmdorctrl',
+  'alt', 'option', 'altgr', 'shift', 'super', 'meta'
+]);
+
+const NAMED_KEYS = new Set([
+  'plus', 'space', 'tab', 'capslock', 'numlock', 'scrolllock', 'backspace', 'delete',
+  'insert', 'return', 'enter', 'up', 'down', 'left', 'right', 'home', 'end', 'pageup',
+  'pagedown', 'escape', 'esc', 'volumeup', 'volumedown', 'volumemute', 'medianexttrack',
+  'mediaprevioustrack', 'mediastop', 'mediaplaypause', 'printscreen',
+  'num0', 'num1', 'num2', 'num3', 'num4', 'num5', 'num6', 'num7', 'num8', 'num9',
+  'numdec', 'numadd', 'numsub', 'nummult', 'numdiv'
+]);
+
+const ACTION_LABELS: Record<ShortcutAction, string> = {
+  start: 'Start recording',
+  stop: 'Stop recording',
+  cancel: 'Cancel recording',
+  toggle: 'Toggle recording',
+  pushToTalk: 'Push to talk'
+};
+
+let handlers: Partial<Record<ShortcutAction, () => void>> = {};
+// Accelerators currently registered by us, mapped to their action
+const registeredAccelerators: Map<string, ShortcutAction> = new Map();
+const originalShortcutOwners: Map<string, boolean> = new Map();
+let shortcutsRestored = true;
+let shortcutsPaused = false;
+
+// Check that an accelerator is made of modifiers plus exactly one key
+export function isValidAccelerator(accelerator: string): boolean {
+  const parts = accelerator.split('+').map(part => part.trim().toLowerCase());
+  if (parts.some(part => part === '')) return false;
+
+  const keys = parts.filter(part => !MODIFIERS.has(part));
+  if (keys.length !== 1) return false;
+
+  const key = keys[0];
+  return key.length === 1 || /^f([1-9]|1\d|2[0-4])$/.test(key) || NAMED_KEYS.has(key);
+}
+
+// Normalize an accelerator so equivalent spellings compare equal
+function normalizeAccelerator(accelerator: string): string {
+  const aliases: Record<string, string> = {
+    cmdorctrl: 'commandorcontrol', cmd: 'command', ctrl: 'control', option: 'alt', esc: 'escape', return: 'enter'
+  };
+  return accelerator
+    .split('+')
+    .map(part => part.trim().toLowerCase())
+    .map(part => aliases[part] || part)
+    .sort()
+    .join('+');
+}
+
+export function getShortcutBindings(): ShortcutBindings {
+  return getSettings().shortcuts;
+}
+
+// Set the functions invoked when each action's shortcut fires
+export function setShortcutHandlers(actionHandlers: Partial<Record<ShortcutAction, () => void>>) {
+  handlers = actionHandlers;
+}
+
+// Check if a shortcut is already registered by another application
+export function isShortcutRegisteredExternally(shortcut: string): boolean {
+  // Our own registrations would make the check below fail
+  if (globalShortcut.isRegistered(shortcut)) {
+    return false;
+  }
+
+  try {
+    // Try to register the shortcut temporarily
+    const isRegistered = globalShortcut.register(shortcut, () => {
+      console.log('Checking if shortcut is registered externally');
+    });
+
+    // If we were able to register it, unregister it and return false (not taken)
+    if (isRegistered) {
+      globalShortcut.unregister(shortcut);
+      return false;
+    }
+
+    // If we couldn't register it, it's already taken
+    return true;
+  } catch (error) {
+    console.error('Error checking shortcut availability:', error);
+    return false; // Assume it's not taken in case of error
+  }
+}
+
+// Find problems with a set of bindings before it is saved
+export function findShortcutConflicts(candidate: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const seen = new Map<string, ShortcutAction>();
+
+  for (const action of SHORTCUT_ACTIONS) {
+    const accelerator = candidate[action]?.trim();
+    if (!accelerator) continue;
+
+    if (!isValidAccelerator(accelerator)) {
+      conflicts.push({
+        action,
+        accelerator,
+        reason: 'invalid',
+        message: `${accelerator} is not a valid shortcut`
+      });
+      continue;
+    }
+
+    const normalized = normalizeAccelerator(accelerator);
+    const previousAction = seen.get(normalized);
+    if (previousAction) {
+      conflicts.push({
+        action,
+        accelerator,
+        reason: 'duplicate',
+        message: `${accelerator} is already used for ${ACTION_LABELS[previousAction]}`
+      });
+      continue;
+    }
+    seen.set(normalized, action);
+
+    if (isShortcutRegisteredExternally(accelerator)) {
+      conflicts.push({
+        action,
+        accelerator,
+        reason: 'external',
+        message: `${accelerator} appears to be used by another application`
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Unregister every action shortcut we hold
+export function unregisterShortcuts() {
+  for (const accelerator of registeredAccelerators.keys()) {
+    globalShortcut.unregister(accelerator);
+  }
+  registeredAccelerators.clear();
+}
+
+// Register the bound shortcuts, returning whether each action got its shortcut
+export function registerShortcuts(): Partial<Record<ShortcutAction, boolean>> {
+  unregisterShortcuts();
+  const results: Partial<Record<ShortcutAction, boolean>> = {};
+
+  if (shortcutsPaused) {
+    console.log('Shortcuts are paused, skipping registration');
+    return results;
+  }
+
+  const current = getShortcutBindings();
+  for (const action of SHORTCUT_ACTIONS) {
+    const accelerator = current[action];
+    if (!accelerator) continue;
+
+    try {
+      // Save the state of any external registration for logging
+      const wasExternallyRegistered = isShortcutRegisteredExternally(accelerator);
+      console.log(`Checking ${accelerator} - Registered externally: ${wasExternallyRegistered}`);
+      originalShortcutOwners.set(accelerator, wasExternallyRegistered);
+      shortcutsRestored = false;
+
+      const success = globalShortcut.register(accelerator, () => {
+        try {
+          console.log(`${accelerator} shortcut triggered (${action})`);
+          handlers[action]?.();
+        } catch (error) {
+          console.error(`Error in ${action} shortcut:`, error);
+        }
+      });
+
+      console.log(`Registered ${accelerator} shortcut for ${action}: ${success}`);
+      results[action] = success;
+
+      if (success) {
+        registeredAccelerators.set(accelerator, action);
+      } else if (wasExternallyRegistered) {
+        console.error(`Failed to register ${accelerator} - it might be used by another application`);
+      }
+    } catch (error) {
+      console.error(`Error registering ${accelerator} for ${action}:`, error);
+      results[action] = false;
+    }
+  }
+
+  return results;
+}
+
+// Check whether the shortcut of an action is currently registered by us
+export function isActionShortcutRegistered(action: ShortcutAction): boolean {
+  const accelerator = getShortcutBindings()[action];
+  return !!accelerator && registeredAccelerators.get(accelerator) === action;
+}
+
+// Validate, persist and register new bindings.
+// Invalid or duplicate bindings are rejected, external conflicts are saved anyway.
+export function saveShortcutBindings(candidate: ShortcutBindings): {
+  saved: boolean;
+  bindings: ShortcutBindings;
+  conflicts: ShortcutConflict[];
+} {
+  const cleaned = { ...DEFAULT_SETTINGS.shortcuts };
+  for (const action of SHORTCUT_ACTIONS) {
+    cleaned[action] = typeof candidate?.[action] === 'string' ? candidate[action].trim() : '';
+  }
+
+  // Release our own shortcuts so they aren't mistaken for external ones
+  unregisterShortcuts();
+  const conflicts = findShortcutConflicts(cleaned);
+  const blocking = conflicts.some(conflict => conflict.reason !== 'external');
+
+  if (!blocking) {
+    updateSettings({ shortcuts: cleaned });
+    console.log('Saved shortcut bindings:', cleaned);
+  }
+
+  registerShortcuts();
+  return { saved: !blocking, bindings: getShortcutBindings(), conflicts };
+}
+
+// Temporarily release all shortcuts, e.g. while the user records a new one
+export function setShortcutsPaused(paused: boolean) {
+  if (shortcutsPaused === paused) return;
+  shortcutsPaused = paused;
+  console.log(`Shortcuts ${paused ? 'paused' : 'resumed'}`);
+
+  if (paused) {
+    unregisterShortcuts();
+  } else {
+    registerShortcuts();
+  }
+}
+
+// Restore original shortcut state when app quits
+export function restoreShortcuts() {
+  if (shortcutsRestored) return;
+
+  try {
+    console.log('Restoring original shortcut registrations');
+    unregisterShortcuts();
+    shortcutsRestored = true;
+    console.log('Shortcuts restored successfully');
+  } catch (error) {
+    console.error('Error restoring shortcuts:', error);
+  }
+}
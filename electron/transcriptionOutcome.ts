@@ -0,0 +1,29 @@
+import { HistoryMetadata } from './history';
+
+// How a transcription ended, as reported by the renderer. Mirrors
+// TranscriptionOutcome in types/electron.d.ts; only successful transcripts
+// are copied, pasted and kept in the history.
+export type TranscriptionOutcome =
+  | { status: 'success'; text: string; metadata?: HistoryMetadata }
+  | { status: 'empty'; reason: 'no_audio' | 'no_speech'; message: string }
+  | { status: 'error'; code: string; message: string };
+
+// Check a message from the renderer before acting on it
+export function isTranscriptionOutcome(value: unknown): value is TranscriptionOutcome {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const outcome = value as Record<string, unknown>;
+  switch (outcome.status) {
+    case 'success':
+      return typeof outcome.text === 'string' &&
+        (outcome.metadata === undefined || (typeof outcome.metadata === 'object' && outcome.metadata !== null));
+    case 'empty':
+      return (outcome.reason === 'no_audio' || outcome.reason === 'no_speech') && typeof outcome.message === 'string';
+    case 'error':
+      return typeof outcome.code === 'string' && typeof outcome.message === 'string';
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,158 @@
+import { Menu, MenuItemConstructorOptions, nativeImage, NativeImage, Tray } from 'electron';
+import * as path from 'path';
+
+// What the renderer is doing, shown by the tray icon
+export type TrayActivity = 'idle' | 'recording' | 'transcribing';
+
+// An input device as listed by the renderer
+export interface TrayMicrophone {
+  deviceId: string;
+  name: string;
+}
+
+// A recent transcription offered for copying
+export interface TrayTranscript {
+  id: string;
+  text: string;
+}
+
+// What the menu items do, main.ts owns the window and the recording
+export interface TrayActions {
+  startRecording: () => void;
+  stopRecording: () => void;
+  cancelRecording: () => void;
+  selectMicrophone: (deviceId: string) => void;
+  copyTranscript: (id: string) => void;
+  showWindow: () => void;
+  openSettings: () => void;
+  setShortcutsPaused: (paused: boolean) => void;
+  quit: () => void;
+}
+
+// Everything the icon, tooltip and menu are built from
+export interface TrayState {
+  activity: TrayActivity;
+  microphones: TrayMicrophone[];
+  selectedMicrophoneId: string; // Device the renderer records from
+  recentTranscripts: TrayTranscript[];
+  shortcutsPaused: boolean;
+  lastError: string | null; // Why the last transcription failed, until the next one succeeds
+}
+
+const ACTIVITY_LABELS: Record<TrayActivity, string> = {
+  idle: 'Ready',
+  recording: 'Recording...',
+  transcribing: 'Transcribing...'
+};
+
+// Longest menu label for a recent transcript
+const TRANSCRIPT_LABEL_LENGTH = 40;
+
+let tray: Tray | null = null;
+let actions: TrayActions | null = null;
+const icons = new Map<TrayActivity, NativeImage>();
+
+let state: TrayState = {
+  activity: 'idle',
+  microphones: [],
+  selectedMicrophoneId: '',
+  recentTranscripts: [],
+  shortcutsPaused: false,
+  lastError: null
+};
+
+// Icons live next to the app icon, the @2x variants are picked up for high DPI displays
+function getIcon(activity: TrayActivity): NativeImage {
+  let icon = icons.get(activity);
+  if (!icon) {
+    icon = nativeImage.createFromPath(path.join(__dirname, `../public/tray/${activity}.png`));
+    icons.set(activity, icon);
+  }
+  return icon;
+}
+
+function formatTranscriptLabel(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > TRANSCRIPT_LABEL_LENGTH
+    ? `${singleLine.slice(0, TRANSCRIPT_LABEL_LENGTH - 1)}…`
+    : singleLine;
+}
+
+function buildMenu(handlers: TrayActions): Menu {
+  const { activity, microphones, selectedMicrophoneId, recentTranscripts, shortcutsPaused } = state;
+
+  const recordingItems: MenuItemConstructorOptions[] = activity === 'recording'
+    ? [
+        { label: 'Stop Recording', click: handlers.stopRecording },
+        { label: 'Cancel Recording', click: handlers.cancelRecording }
+      ]
+    : [{ label: 'Start Recording', enabled: activity === 'idle', click: handlers.startRecording }];
+
+  const microphoneItems: MenuItemConstructorOptions[] = microphones.length > 0
+    ? microphones.map(microphone => ({
+        label: microphone.name,
+        type: 'radio',
+        checked: microphone.deviceId === selectedMicrophoneId,
+        // The microphone is picked up when the next recording starts
+        click: () => handlers.selectMicrophone(microphone.deviceId)
+      }))
+    : [{ label: 'No microphones found', enabled: false }];
+
+  const transcriptItems: MenuItemConstructorOptions[] = recentTranscripts.length > 0
+    ? recentTranscripts.map(transcript => ({
+        label: formatTranscriptLabel(transcript.text),
+        toolTip: 'Copy to clipboard',
+        click: () => handlers.copyTranscript(transcript.id)
+      }))
+    : [{ label: 'No transcripts yet', enabled: false }];
+
+  return Menu.buildFromTemplate([
+    { label: ACTIVITY_LABELS[activity], enabled: false },
+    { type: 'separator' },
+    ...recordingItems,
+    { label: 'Microphone', submenu: microphoneItems },
+    { label: 'Recent Transcripts', submenu: transcriptItems },
+    { type: 'separator' },
+    { label: 'Show Window', click: handlers.showWindow },
+    { label: 'Settings...', click: handlers.openSettings },
+    {
+      label: 'Pause Shortcuts',
+      type: 'checkbox',
+      checked: shortcutsPaused,
+      click: (item) => handlers.setShortcutsPaused(item.checked)
+    },
+    { type: 'separator' },
+    { label: 'Quit VibeTranscribe', click: handlers.quit }
+  ]);
+}
+
+function render() {
+  if (!tray || !actions) return;
+
+  const tooltip = state.lastError
+    ? `VibeTranscribe - ${ACTIVITY_LABELS[state.activity]}\nLast transcription failed: ${state.lastError}`
+    : `VibeTranscribe - ${ACTIVITY_LABELS[state.activity]}`;
+
+  tray.setImage(getIcon(state.activity));
+  tray.setToolTip(tooltip);
+  tray.setContextMenu(buildMenu(actions));
+}
+
+export function createTray(handlers: TrayActions) {
+  if (tray) return;
+
+  actions = handlers;
+  tray = new Tray(getIcon(state.activity));
+  render();
+}
+
+// Change part of what the tray shows and rebuild it
+export function updateTray(changes: Partial<TrayState>) {
+  state = { ...state, ...changes };
+  render();
+}
+
+export function destroyTray() {
+  tray?.destroy();
+  tray = null;
+}
@@ -0,0 +1,102 @@
+import { Display, Rectangle, screen } from 'electron';
+import { getSettings, updateSettings, WindowPosition } from './settings';
+
+export interface WindowSize {
+  width: number;
+  height: number;
+}
+
+// Space left between the overlay and the edges of the work area
+const EDGE_MARGIN = 10;
+
+// Space between the bottom of the overlay and the pointer for the near-caret anchor
+const CARET_GAP = 24;
+
+function getDisplayId(display: Display): string {
+  return String(display.id);
+}
+
+function isOnWorkArea(position: WindowPosition, size: WindowSize, workArea: Rectangle): boolean {
+  return position.x < workArea.x + workArea.width && position.x + size.width > workArea.x &&
+    position.y < workArea.y + workArea.height && position.y + size.height > workArea.y;
+}
+
+function clampToWorkArea(position: WindowPosition, size: WindowSize, workArea: Rectangle): WindowPosition {
+  return {
+    x: Math.round(Math.min(Math.max(position.x, workArea.x), workArea.x + workArea.width - size.width)),
+    y: Math.round(Math.min(Math.max(position.y, workArea.y), workArea.y + workArea.height - size.height))
+  };
+}
+
+// Whether any part of the window is on a connected display
+export function isOnScreen(bounds: Rectangle): boolean {
+  return screen.getAllDisplays().some(({ workArea }) => isOnWorkArea(bounds, bounds, workArea));
+}
+
+// Where the anchor preset puts the overlay on a display
+function getAnchorPosition(display: Display, size: WindowSize): WindowPosition {
+  const { workArea } = display;
+
+  switch (getSettings().windowAnchor) {
+    case 'top-right':
+      return {
+        x: workArea.x + workArea.width - size.width - EDGE_MARGIN,
+        y: workArea.y + EDGE_MARGIN
+      };
+    case 'near-caret': {
+      // Electron can't see the text caret of other apps, but the pointer is
+      // usually close to where the user is typing
+      const cursor = screen.getCursorScreenPoint();
+      if (screen.getDisplayNearestPoint(cursor).id === display.id) {
+        return clampToWorkArea(
+          { x: cursor.x - size.width / 2, y: cursor.y - size.height - CARET_GAP },
+          size,
+          workArea
+        );
+      }
+      break;
+    }
+  }
+
+  return {
+    x: workArea.x + Math.floor((workArea.width - size.width) / 2),
+    y: workArea.y + workArea.height - size.height - EDGE_MARGIN
+  };
+}
+
+// Where the overlay belongs on a display: where it was dragged to, otherwise its anchor.
+// Near the caret follows the pointer every time, so dragged positions don't apply.
+export function getWindowPosition(display: Display, size: WindowSize): WindowPosition {
+  const { windowAnchor, windowPositions } = getSettings();
+  const saved = windowPositions.find(position => position.displayId === getDisplayId(display));
+
+  if (windowAnchor !== 'near-caret' && saved && isOnWorkArea(saved, size, display.workArea)) {
+    return { x: saved.x, y: saved.y };
+  }
+  return getAnchorPosition(display, size);
+}
+
+// The display the overlay was last dragged on if it's still connected, otherwise the primary one
+export function getStartupDisplay(): Display {
+  const displays = screen.getAllDisplays();
+  for (const { displayId } of getSettings().windowPositions) {
+    const display = displays.find(candidate => getDisplayId(candidate) === displayId);
+    if (display) return display;
+  }
+  return screen.getPrimaryDisplay();
+}
+
+// Remember where the overlay was dragged to on the display it ended up on
+export function saveWindowPosition(bounds: Rectangle) {
+  const { windowAnchor, windowPositions } = getSettings();
+  if (windowAnchor === 'near-caret') return;
+
+  const displayId = getDisplayId(screen.getDisplayMatching(bounds));
+  console.log(`Saving window position on display ${displayId}: x=${bounds.x}, y=${bounds.y}`);
+  updateSettings({
+    windowPositions: [
+      { displayId, x: bounds.x, y: bounds.y },
+      ...windowPositions.filter(position => position.displayId !== displayId)
+    ]
+  });
+}
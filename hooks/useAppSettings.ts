@@ -0,0 +1,82 @@
+// hooks/useAppSettings.ts
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { findDuplicateShortcuts, setKeyboardShortcutsPaused } from "@/utils/keyboardShortcuts";
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, subscribeToSettings } from "@/utils/settings";
+
+/**
+ * Persistent settings from the main process (or localStorage), following changes made elsewhere.
+ * The ref is for callbacks that shouldn't change with every setting.
+ */
+export function useAppSettings(isMounted: boolean, isElectronMode: boolean) {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [settingsError, setSettingsError] = useState<string | null>(null); // Why the last change wasn't saved
+  const settingsRef = useRef<AppSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    if (!isMounted) return;
+
+    loadSettings()
+      .then(setSettings)
+      .catch((error) => console.error("Error loading settings:", error));
+
+    return subscribeToSettings(setSettings);
+  }, [isMounted, isElectronMode]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // Change settings and keep the stored copy in sync
+  const updateSettings = useCallback(async (changes: AppSettingsChanges) => {
+    try {
+      setSettings(await saveSettings(changes));
+      setSettingsError(null);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      // Shown in the settings panel, e.g. shortcuts that were refused
+      setSettingsError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  // Check bindings for problems before saving them
+  const checkShortcutConflicts = useCallback(async (bindings: ShortcutBindings) => {
+    if (isElectronMode) {
+      return window.electronAPI.checkShortcutConflicts(bindings);
+    }
+    // A browser can't see other applications' shortcuts
+    return findDuplicateShortcuts(bindings);
+  }, [isElectronMode]);
+
+  const saveShortcutBindings = useCallback(async (bindings: ShortcutBindings) => {
+    if (isElectronMode) {
+      const result = await window.electronAPI.setShortcutBindings(bindings);
+      if (!result.saved) {
+        throw new Error(result.conflicts.map(conflict => conflict.message).join(', '));
+      }
+      setSettings(prev => ({ ...prev, shortcuts: result.bindings }));
+      return;
+    }
+
+    await updateSettings({ shortcuts: bindings });
+  }, [isElectronMode, updateSettings]);
+
+  // Release shortcuts while a new combination is being recorded
+  const handleShortcutCaptureChange = useCallback((capturing: boolean) => {
+    if (isElectronMode) {
+      window.electronAPI.setShortcutsPaused(capturing);
+    } else {
+      setKeyboardShortcutsPaused(capturing);
+    }
+  }, [isElectronMode]);
+
+  return {
+    settings,
+    settingsRef,
+    settingsError,
+    updateSettings,
+    checkShortcutConflicts,
+    saveShortcutBindings,
+    handleShortcutCaptureChange
+  };
+}
@@ -0,0 +1,352 @@
+// hooks/useTranscript.ts
+
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from "react";
+import { LiveTranscriptionSession } from "@/utils/liveTranscription";
+import { postProcessTranscript } from "@/utils/postProcessing";
+import { refineTranscript } from "@/utils/refineClient";
+import { getTimestampGranularities, NO_SPEECH_MESSAGE, TranscriptionAttempt, TranscriptionResponse } from "@/utils/transcriptionClient";
+import { hasTimestamps } from "@/utils/transcriptExport";
+import { describeErrorCode, TranscriptionError } from "@/lib/transcription/errors";
+import type { TranscriptionNotice } from "@/components/StreamingTranscription";
+
+/**
+ * Details of the current recording or file, stored with the transcription in history
+ */
+export interface RecordingInfo {
+  startedAt: number;
+  stoppedAt?: number;
+  microphone?: string;
+  fileName?: string;
+}
+
+export interface TranscriptOptions {
+  isMounted: boolean;
+  isElectronMode: boolean;
+  settingsRef: MutableRefObject<AppSettings>;
+  recordingInfoRef: MutableRefObject<RecordingInfo | null>;
+  failureQueued: boolean; // The last transcription failed and was queued, mentioned in the status
+  onSuccess: () => void; // A transcript came through, e.g. to take a retried recording off the queue
+  onChunkFailed: (audio: Blob, error: TranscriptionError) => void; // A live chunk failed for good
+}
+
+/**
+ * The transcript on its way to the clipboard: partial text while it streams, then voice
+ * commands and the refine mode, or a notice saying why there is none.
+ * Recordings and files are sent by the Transcriber, live chunks by a session kept here.
+ */
+export function useTranscript({
+  isMounted,
+  isElectronMode,
+  settingsRef,
+  recordingInfoRef,
+  failureQueued,
+  onSuccess,
+  onChunkFailed
+}: TranscriptOptions) {
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [progressText, setProgressText] = useState<string>("");
+  const [isTranscriptionClosed, setIsTranscriptionClosed] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [rawTranscript, setRawTranscript] = useState<string | undefined>(undefined); // Kept alongside the refined text
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [timedTranscript, setTimedTranscript] = useState<TranscriptionResponse | null>(null); // For subtitle export
+  const [transcriptionNotice, setTranscriptionNotice] = useState<TranscriptionNotice | null>(null); // Why there's no transcript
+  const [retryNotice, setRetryNotice] = useState<string | null>(null); // Shown while waiting to retry a request
+
+  // Live mode transcribes chunks at pauses while still recording
+  const liveSessionRef = useRef<LiveTranscriptionSession | null>(null);
+
+  // Ref for debouncing transcription progress updates
+  const progressUpdateTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const lastProgressTextRef = useRef<string>("");
+
+  // Drop any pending partial update so it can't overwrite what comes next
+  const cancelProgressUpdate = useCallback(() => {
+    if (progressUpdateTimerRef.current) {
+      clearTimeout(progressUpdateTimerRef.current);
+      progressUpdateTimerRef.current = null;
+    }
+  }, []);
+
+  // Clear the previous transcript before a new recording, file or retry
+  const resetTranscription = useCallback(() => {
+    setProgressText("");
+    setRawTranscript(undefined);
+    setRefineError(null);
+    setTimedTranscript(null);
+    setTranscriptionNotice(null);
+    setRetryNotice(null);
+    lastProgressTextRef.current = "";
+
+    // Reset the closed state so the new transcription shows
+    setIsTranscriptionClosed(false);
+  }, []);
+
+  // The recording was cancelled, live chunks still waiting in the queue must not be sent either
+  const cancelLiveTranscription = useCallback(() => {
+    liveSessionRef.current?.cancel();
+    liveSessionRef.current = null;
+    setProgressText("");
+    lastProgressTextRef.current = "";
+  }, []);
+
+  // Shown while a request is about to be tried again
+  const handleRetry = useCallback((attempt: number, delayMs: number, error: TranscriptionError) => {
+    setRetryNotice(`${describeErrorCode(error.code)}, retrying in ${Math.ceil(delayMs / 1000)}s...`);
+  }, []);
+
+  // Handle transcription start
+  const handleTranscriptionStart = useCallback(() => {
+    console.log("Transcription started");
+    setIsTranscribing(true);
+    setProgressText("");
+    lastProgressTextRef.current = "";
+    setIsTranscriptionClosed(false); // Ensure transcription is not considered closed when a new one starts
+  }, []);
+
+  // Handle transcription progress with debouncing
+  const handleTranscriptionProgress = useCallback((text: string) => {
+    // Skip if text hasn't changed significantly
+    if (text === lastProgressTextRef.current ||
+        (text.length > 0 && lastProgressTextRef.current.length > 0 &&
+         text.length - lastProgressTextRef.current.length < 5)) {
+      return;
+    }
+
+    // Update the reference immediately to prevent multiple similar updates
+    lastProgressTextRef.current = text;
+
+    // Clear any existing timer
+    cancelProgressUpdate();
+
+    // Set a debounced timer to update the UI
+    progressUpdateTimerRef.current = setTimeout(() => {
+      console.log("Transcription progress (debounced):", text.substring(0, 20) + "...");
+      setProgressText(text);
+      if (text) {
+        setRetryNotice(null);
+      }
+      progressUpdateTimerRef.current = null;
+    }, 200);
+  }, [cancelProgressUpdate]);
+
+  // Apply voice commands and other formatting to a finished transcript
+  const processTranscript = useCallback((text: string) => {
+    const { voiceCommands, language, translate } = settingsRef.current;
+    return postProcessTranscript(text, { voiceCommands, language, translate });
+  }, [settingsRef]);
+
+  // Handle transcription completion
+  const handleTranscriptionComplete = useCallback((
+    text: string,
+    model?: string,
+    refinement?: { rawText: string; preset: string } // Set when text is a rewrite of the transcript
+  ) => {
+    console.log("Transcription complete:", text);
+    cancelProgressUpdate();
+
+    setProgressText(text);
+    setRawTranscript(refinement?.rawText);
+    setRetryNotice(null);
+    setIsTranscribing(false);
+
+    // In Electron mode, send to main process along with details for the history
+    if (isElectronMode) {
+      const recordingInfo = recordingInfoRef.current;
+      window.electronAPI.sendTranscriptionComplete({
+        status: 'success',
+        text,
+        metadata: {
+          durationMs: recordingInfo?.stoppedAt ? recordingInfo.stoppedAt - recordingInfo.startedAt : undefined,
+          microphone: recordingInfo?.microphone,
+          fileName: recordingInfo?.fileName,
+          model,
+          rawText: refinement?.rawText,
+          refinePreset: refinement?.preset
+        }
+      });
+    }
+    // In browser mode, use the browser's clipboard API
+    else if (isMounted && navigator.clipboard) {
+      navigator.clipboard.writeText(text)
+        .then(() => {
+          console.log("Text copied to clipboard");
+        })
+        .catch((err) => {
+          console.error("Could not copy text: ", err);
+        });
+    }
+  }, [isMounted, isElectronMode, recordingInfoRef, cancelProgressUpdate]);
+
+  // Post-process a successful transcript, then rewrite it with the selected refine mode
+  const handleTranscript = useCallback(async (result: TranscriptionResponse) => {
+    const { text, model } = result;
+    onSuccess();
+
+    // Subtitles are built from the timestamps, which belong to the unformatted text
+    setTimedTranscript(hasTimestamps(result) ? result : null);
+
+    const processed = processTranscript(text);
+    const { refineMode, refineModel } = settingsRef.current;
+    setRefineError(null);
+
+    if (!refineMode) {
+      handleTranscriptionComplete(processed, model);
+      return;
+    }
+
+    // Show the transcript while the rewrite is on its way
+    cancelProgressUpdate();
+    setProgressText(processed);
+    setIsRefining(true);
+
+    try {
+      const refined = await refineTranscript(processed, { preset: refineMode, model: refineModel || undefined });
+      handleTranscriptionComplete(refined.text, model, { rawText: processed, preset: refineMode });
+    } catch (err) {
+      // Better to copy the transcript as it is than nothing at all
+      console.error("Refinement failed, using the raw transcript:", err);
+      setRefineError(err instanceof Error ? err.message : String(err));
+      handleTranscriptionComplete(processed, model);
+    } finally {
+      setIsRefining(false);
+    }
+  }, [handleTranscriptionComplete, processTranscript, cancelProgressUpdate, onSuccess, settingsRef]);
+
+  // Show why a recording produced no transcript, nothing is copied
+  const handleTranscriptionFailure = useCallback((outcome: Exclude<TranscriptionOutcome, { status: 'success' }>) => {
+    console.log("Transcription ended without text:", outcome);
+    cancelProgressUpdate();
+
+    setProgressText("");
+    setRetryNotice(null);
+    setTranscriptionNotice(outcome.status === 'error'
+      ? { tone: 'error', title: describeErrorCode(outcome.code), message: outcome.message }
+      : { tone: 'info', title: 'Nothing transcribed', message: outcome.message });
+    setIsTranscribing(false);
+
+    // The main process logs it and lets the user know if the window is in the background
+    if (isElectronMode) {
+      window.electronAPI.sendTranscriptionComplete(outcome);
+    }
+  }, [isElectronMode, cancelProgressUpdate]);
+
+  // Route the result of a transcription to the transcript or the notice
+  const handleTranscriptionResult = useCallback((attempt: TranscriptionAttempt) => {
+    if (attempt.status === 'success') {
+      handleTranscript(attempt.result);
+    } else {
+      handleTranscriptionFailure(attempt);
+    }
+  }, [handleTranscript, handleTranscriptionFailure]);
+
+  // Handle a chunk of a live recording
+  const handleChunkReady = useCallback((chunk: Blob, isFinal: boolean) => {
+    if (!liveSessionRef.current) {
+      const settings = settingsRef.current;
+      liveSessionRef.current = new LiveTranscriptionSession({
+        provider: settings.provider || undefined,
+        model: settings.model || undefined,
+        localModelPath: settings.localModelPath || undefined,
+        localBinaryPath: settings.localBinaryPath || undefined,
+        language: settings.language || undefined,
+        prompt: settings.prompt || undefined,
+        temperature: settings.temperature,
+        translate: settings.translate,
+        glossary: settings.glossary,
+        timestamps: getTimestampGranularities(settings.timestamps),
+        onProgress: handleTranscriptionProgress,
+        onRetry: handleRetry,
+      });
+    }
+
+    const session = liveSessionRef.current;
+    session.enqueue(chunk);
+
+    if (!isFinal) return;
+
+    // Recording has ended, wait for the remaining chunks
+    console.log("Live recording complete, finishing transcription");
+    if (recordingInfoRef.current) {
+      recordingInfoRef.current.stoppedAt = Date.now();
+    }
+    liveSessionRef.current = null;
+    setIsTranscribing(true);
+    setIsTranscriptionClosed(false);
+
+    session.finish()
+      .then((result) => {
+        if (result.text.trim()) {
+          handleTranscriptionResult({ status: 'success', result });
+        } else {
+          handleTranscriptionResult({ status: 'empty', reason: 'no_speech', message: NO_SPEECH_MESSAGE });
+        }
+      })
+      .catch((err) => {
+        console.error("Live transcription error:", err);
+        handleTranscriptionResult({
+          status: 'error',
+          code: err instanceof TranscriptionError ? err.code : 'unknown',
+          message: err instanceof Error ? err.message : String(err)
+        });
+      })
+      // Chunks that failed are kept on their own, the rest of the dictation still goes through
+      .finally(() => {
+        for (const { audio, error } of session.getFailedChunks()) {
+          onChunkFailed(audio, error);
+        }
+      });
+  }, [handleTranscriptionProgress, handleTranscriptionResult, handleRetry, onChunkFailed, recordingInfoRef, settingsRef]);
+
+  // Handler for manually closing the transcription box
+  const handleCloseTranscription = useCallback(() => {
+    console.log("Closing transcription box");
+    setIsTranscriptionClosed(true);
+
+    // Also reset text state to ensure clean state for next recording
+    setProgressText("");
+    setRawTranscript(undefined);
+    setTimedTranscript(null);
+    setTranscriptionNotice(null);
+
+    // In Electron mode, shrink window back to minimal size
+    if (isElectronMode && window.electronAPI) {
+      window.electronAPI.setWindowSize(false);
+    }
+  }, [isElectronMode]);
+
+  // Cleanup the timer when component unmounts
+  useEffect(() => cancelProgressUpdate, [cancelProgressUpdate]);
+
+  // Shown next to the transcription title
+  const transcribingFileName = isTranscribing ? recordingInfoRef.current?.fileName : undefined;
+  const status = isRefining
+    ? 'Refining...'
+    : refineError
+      ? 'Not refined, copied as transcribed'
+      : retryNotice
+        ? retryNotice
+        : failureQueued
+          ? 'Recording kept, retry it from the queue'
+          : transcribingFileName
+            ? `Transcribing ${transcribingFileName}...`
+            : undefined;
+
+  return {
+    isTranscribing,
+    progressText,
+    rawTranscript,
+    timedTranscript,
+    transcriptionNotice,
+    isTranscriptionClosed,
+    status,
+    resetTranscription,
+    cancelLiveTranscription,
+    handleRetry,
+    handleTranscriptionStart,
+    handleTranscriptionProgress,
+    handleTranscriptionResult,
+    handleChunkReady,
+    handleCloseTranscription
+  };
+}
@@ -0,0 +1,112 @@
+// hooks/useTranscriptionQueue.ts
+
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from "react";
+import type { TranscriptionError } from "@/lib/transcription/errors";
+import type { RecordingInfo } from "@/hooks/useTranscript";
+import {
+  enqueueTranscription,
+  listQueuedTranscriptions,
+  QueuedTranscription,
+  recordQueuedFailure,
+  removeQueuedTranscription,
+  subscribeToQueue
+} from "@/utils/transcriptionQueue";
+
+/**
+ * Recordings whose transcription failed, kept to try again later.
+ * A queued recording being retried is updated when it fails again and leaves the queue once it succeeds.
+ * @param recordingInfoRef Details of the recording being transcribed, stored with it when it fails
+ */
+export function useTranscriptionQueue(isMounted: boolean, recordingInfoRef: MutableRefObject<RecordingInfo | null>) {
+  const [queuedTranscriptions, setQueuedTranscriptions] = useState<QueuedTranscription[]>([]);
+  const [failureQueued, setFailureQueued] = useState(false); // The last transcription failed and was queued
+  // Set while a queued recording is transcribed again
+  const retryingQueueIdRef = useRef<string | null>(null);
+
+  // Keep the list up to date, also when another part of the page changes it
+  useEffect(() => {
+    if (!isMounted) return;
+
+    const loadQueue = () => {
+      listQueuedTranscriptions()
+        .then(setQueuedTranscriptions)
+        .catch((err) => console.error("Error loading the transcription queue:", err));
+    };
+    loadQueue();
+    return subscribeToQueue(loadQueue);
+  }, [isMounted]);
+
+  // Forget about the last failure, a new recording, file or retry is starting
+  const resetQueueStatus = useCallback(() => {
+    setFailureQueued(false);
+    retryingQueueIdRef.current = null;
+  }, []);
+
+  // Keep audio that couldn't be transcribed so it can be tried again later
+  const queueFailedAudio = useCallback((error: TranscriptionError, audio: Blob) => {
+    const failure = { error: error.message, code: error.code };
+    const recordingInfo = recordingInfoRef.current;
+    const retryingId = retryingQueueIdRef.current;
+    retryingQueueIdRef.current = null;
+
+    const saved = retryingId
+      ? recordQueuedFailure(retryingId, failure)
+      : enqueueTranscription(audio, failure, {
+          fileName: recordingInfo?.fileName,
+          durationMs: recordingInfo?.stoppedAt ? recordingInfo.stoppedAt - recordingInfo.startedAt : undefined,
+          microphone: recordingInfo?.microphone
+        });
+    saved
+      .then(() => setFailureQueued(true))
+      .catch((err) => console.error("Could not keep the failed recording:", err));
+  }, [recordingInfoRef]);
+
+  // A chunk of a live recording failed, the rest of the dictation still went through
+  const queueFailedChunk = useCallback((audio: Blob, error: TranscriptionError) => {
+    enqueueTranscription(audio, { error: error.message, code: error.code }, {
+      microphone: recordingInfoRef.current?.microphone
+    })
+      .then(() => setFailureQueued(true))
+      .catch((err) => console.error("Could not keep the failed chunk:", err));
+  }, [recordingInfoRef]);
+
+  // Mark a queued recording as the one being transcribed, along with its details
+  const startRetry = useCallback((entry: QueuedTranscription) => {
+    console.log("Retrying queued transcription:", entry.id);
+    // Recordings are queued as soon as they fail, so they ended about then
+    recordingInfoRef.current = {
+      startedAt: entry.createdAt - (entry.durationMs ?? 0),
+      stoppedAt: entry.durationMs ? entry.createdAt : undefined,
+      microphone: entry.microphone,
+      fileName: entry.fileName
+    };
+    retryingQueueIdRef.current = entry.id;
+  }, [recordingInfoRef]);
+
+  // A queued recording went through this time
+  const completeRetry = useCallback(() => {
+    if (!retryingQueueIdRef.current) return;
+
+    removeQueuedTranscription(retryingQueueIdRef.current).catch((err) => {
+      console.error("Error removing transcription from the queue:", err);
+    });
+    retryingQueueIdRef.current = null;
+  }, []);
+
+  const deleteQueuedTranscription = useCallback((id: string) => {
+    removeQueuedTranscription(id).catch((err) => {
+      console.error("Error deleting queued transcription:", err);
+    });
+  }, []);
+
+  return {
+    queuedTranscriptions,
+    failureQueued,
+    resetQueueStatus,
+    queueFailedAudio,
+    queueFailedChunk,
+    startRetry,
+    completeRetry,
+    deleteQueuedTranscription
+  };
+}
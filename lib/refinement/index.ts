@@ -0,0 +1,74 @@
+// lib/refinement/index.ts
+
+import OpenAI from 'openai';
+import { extractErrorMessage } from '@/lib/transcription/openaiCompatible';
+import { buildRefineInstructions, getRefinePreset, RefinePresetId } from './presets';
+
+export type { RefinePreset, RefinePresetId } from './presets';
+export { isRefinePresetId, REFINE_PRESETS } from './presets';
+
+export interface RefineRequest {
+  text: string;
+  preset: RefinePresetId;
+  /** Chat model, the configured default when omitted */
+  model?: string;
+}
+
+export interface RefineResult {
+  text: string;
+  model: string;
+}
+
+// Either OpenAI or any server with an OpenAI-compatible chat endpoint (Ollama, LM Studio, vLLM...)
+const baseURL = process.env.REFINE_BASE_URL;
+const apiKey = process.env.REFINE_API_KEY || (baseURL ? undefined : process.env.OPENAI_API_KEY);
+export const DEFAULT_REFINE_MODEL = process.env.REFINE_MODEL || 'gpt-4o-mini';
+
+let client: OpenAI | null = null;
+
+/**
+ * Whether refinement can be called, a local endpoint needs no API key
+ */
+export function isRefinementConfigured(): boolean {
+  return !!baseURL || !!apiKey;
+}
+
+// Create the client lazily so a missing key never throws at import time
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      // The SDK refuses an empty key, but local servers usually ignore it
+      apiKey: apiKey || 'not-needed',
+      baseURL,
+    });
+  }
+  return client;
+}
+
+/**
+ * Rewrite a transcript according to a preset
+ */
+export async function refineText(request: RefineRequest): Promise<RefineResult> {
+  const preset = getRefinePreset(request.preset);
+  const model = request.model || DEFAULT_REFINE_MODEL;
+
+  try {
+    const completion = await getClient().chat.completions.create({
+      model,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: buildRefineInstructions(preset) },
+        { role: 'user', content: request.text },
+      ],
+    });
+
+    const text = completion.choices[0]?.message?.content?.trim() ?? '';
+    if (!text) {
+      throw new Error('The model returned no text');
+    }
+    return { text, model: completion.model || model };
+  } catch (apiError) {
+    console.error('Refinement API error:', apiError);
+    throw new Error(`Refinement error: ${await extractErrorMessage(apiError)}`);
+  }
+}
@@ -0,0 +1,85 @@
+// lib/refinement/presets.ts
+
+/**
+ * Identifiers of the rewrite modes a transcript can go through
+ */
+export type RefinePresetId = 'cleanup' | 'grammar' | 'email' | 'bullets' | 'commit' | 'slack';
+
+export interface RefinePreset {
+  id: RefinePresetId;
+  /** Short name shown in the mode switch */
+  label: string;
+  /** System prompt telling the model how to rewrite the transcript */
+  instructions: string;
+}
+
+// Every preset gets the transcript as the user message and must only return the rewrite
+const COMMON_RULES =
+  'The user message is a raw speech-to-text transcript. Reply with the rewritten text only, ' +
+  'without quotes, explanations or a preamble. Keep the language of the transcript. ' +
+  'Do not add facts, names or details that are not in the transcript.';
+
+export const REFINE_PRESETS: RefinePreset[] = [
+  {
+    id: 'cleanup',
+    label: 'Clean up',
+    instructions:
+      'Remove filler words (um, uh, like, you know), false starts and repetitions. ' +
+      'Keep the wording otherwise unchanged.',
+  },
+  {
+    id: 'grammar',
+    label: 'Fix grammar',
+    instructions:
+      'Remove filler words and fix grammar, punctuation and capitalisation. ' +
+      'Keep the meaning and tone, change as little as possible.',
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    instructions:
+      'Rewrite the transcript as a clear, polite email with a greeting, short paragraphs and a sign-off. ' +
+      'Leave the sender name out of the sign-off.',
+  },
+  {
+    id: 'bullets',
+    label: 'Bullet list',
+    instructions:
+      'Rewrite the transcript as a concise Markdown bullet list, one idea per bullet, starting each line with "- ".',
+  },
+  {
+    id: 'commit',
+    label: 'Commit message',
+    instructions:
+      'Rewrite the transcript as a git commit message: an imperative subject line of at most 72 characters, ' +
+      'then a blank line and a short body wrapped at 72 characters if more detail is needed.',
+  },
+  {
+    id: 'slack',
+    label: 'Slack reply',
+    instructions:
+      'Rewrite the transcript as a short, friendly chat message for Slack. Keep it casual, ' +
+      'use Markdown sparingly and no greeting or sign-off.',
+  },
+];
+
+/**
+ * Check whether a value names a known preset
+ */
+export function isRefinePresetId(value: unknown): value is RefinePresetId {
+  return typeof value === 'string' && REFINE_PRESETS.some(preset => preset.id === value);
+}
+
+/**
+ * Get a preset by id
+ */
+export function getRefinePreset(id: RefinePresetId): RefinePreset {
+  return REFINE_PRESETS.find(preset => preset.id === id) ?? REFINE_PRESETS[0];
+}
+
+/**
+ * Full system prompt for a preset
+ */
+export function buildRefineInstructions(preset: RefinePreset): string {
+  return `${preset.instructions}\n\n${COMMON_RULES}`;
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeAudio, planChunks } from '@/lib/transcription/audioSplitting';
+import { TranscriptionError } from '@/lib/transcription/errors';
+
+const options = { maxChunkSeconds: 43, overlapSeconds: 1.5, searchSeconds: 10 };
+
+describe('planChunks', () => {
+  it('keeps audio that fits in one chunk whole', () => {
+    expect(planChunks({ duration: 30, silences: [] }, options)).toEqual([
+      { index: 0, start: 0, end: 30, ownStart: 0, ownEnd: 30 }
+    ]);
+  });
+
+  it('cuts in the longest pause near the limit, or at the limit without one', () => {
+    const chunks = planChunks({
+      duration: 100,
+      silences: [
+        { start: 10, end: 14 }, // Too early to be used
+        { start: 33, end: 34 },
+        { start: 36, end: 36.5 }
+      ]
+    }, options);
+
+    expect(chunks).toEqual([
+      { index: 0, start: 0, end: 35, ownStart: 0, ownEnd: 33.5 },
+      { index: 1, start: 32, end: 75, ownStart: 33.5, ownEnd: 73.5 },
+      { index: 2, start: 72, end: 100, ownStart: 73.5, ownEnd: 100 }
+    ]);
+  });
+
+  it('never makes a chunk longer than the limit', () => {
+    const chunks = planChunks({ duration: 1000, silences: [] }, options);
+
+    for (const chunk of chunks) {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(options.maxChunkSeconds);
+    }
+    expect(chunks[chunks.length - 1].ownEnd).toBe(1000);
+  });
+
+  it('rejects an overlap that leaves nothing for the chunk itself', () => {
+    expect(() => planChunks({ duration: 100, silences: [] }, { ...options, maxChunkSeconds: 3 })).toThrow();
+  });
+});
+
+describe('analyzeAudio', () => {
+  const ffmpegPath = process.env.FFMPEG_PATH;
+  let dir: string | undefined;
+
+  afterEach(() => {
+    process.env.FFMPEG_PATH = ffmpegPath;
+    if (dir) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('reports a missing ffmpeg as a config error', async () => {
+    process.env.FFMPEG_PATH = path.join(os.tmpdir(), 'no-such-ffmpeg');
+
+    await expect(analyzeAudio('audio.webm')).rejects.toMatchObject({ code: 'config' });
+  });
+
+  it.skipIf(process.platform === 'win32')('reports audio ffmpeg cannot decode as bad audio', async () => {
+    // Stands in for ffmpeg failing on a broken file
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-splitting-'));
+    const fakeFfmpeg = path.join(dir, 'ffmpeg');
+    fs.writeFileSync(fakeFfmpeg, '#!/bin/sh\necho "audio.webm: Invalid data found when processing input" >&2\nexit 1\n', { mode: 0o755 });
+    process.env.FFMPEG_PATH = fakeFfmpeg;
+
+    const error = await analyzeAudio('audio.webm').catch(err => err);
+    expect(error).toBeInstanceOf(TranscriptionError);
+    expect(error).toMatchObject({
+      code: 'bad_audio',
+      message: 'ffmpeg failed: audio.webm: Invalid data found when processing input'
+    });
+  });
+});
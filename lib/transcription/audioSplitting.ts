@@ -0,0 +1,224 @@
+// lib/transcription/audioSplitting.ts
+
+import { execFile } from 'child_process';
+import { TranscriptionError } from './errors';
+
+/**
+ * A stretch of silence in the audio, in seconds
+ */
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A piece of the audio to transcribe on its own, in seconds.
+ * `start`/`end` include the overlap with the neighbouring chunks, the chunk is
+ * only trusted for the text spoken between `ownStart` and `ownEnd`.
+ */
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+  ownStart: number;
+  ownEnd: number;
+}
+
+export interface AudioAnalysis {
+  /** Length of the audio in seconds */
+  duration: number;
+  silences: SilenceInterval[];
+}
+
+export interface ChunkPlanOptions {
+  /** Longest chunk, overlap included */
+  maxChunkSeconds: number;
+  /** Audio shared with each neighbouring chunk, so words at a cut are heard in full at least once */
+  overlapSeconds: number;
+  /** How far before the latest possible cut to look for a silence */
+  searchSeconds: number;
+}
+
+// Quieter than this for long enough counts as a pause
+const SILENCE_NOISE_DB = -35;
+const SILENCE_MIN_SECONDS = 0.4;
+
+// Chunks are re-encoded to small mono MP3s, speech models work at 16 kHz anyway
+export const CHUNK_BITRATE_KBPS = 64;
+
+// Decoding a long file can take a while on a slow machine
+const FFMPEG_TIMEOUT = 10 * 60 * 1000;
+
+function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg';
+}
+
+/**
+ * Run ffmpeg and resolve with what it printed to stderr, where it writes its logs.
+ * A missing ffmpeg is a 'config' error, anything it can't decode 'bad_audio'.
+ */
+function runFfmpeg(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      getFfmpegPath(),
+      ['-hide_banner', ...args],
+      { timeout: FFMPEG_TIMEOUT, maxBuffer: 32 * 1024 * 1024, windowsHide: true },
+      (error, _stdout, stderr) => {
+        if (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            reject(new TranscriptionError(
+              'ffmpeg is needed to split long recordings and transcribe locally, install it or set FFMPEG_PATH',
+              'config'
+            ));
+          } else if (error.killed) {
+            reject(new TranscriptionError('ffmpeg took too long to decode the audio', 'timeout'));
+          } else {
+            reject(new TranscriptionError(
+              `ffmpeg failed: ${stderr.toString().trim().split('\n').pop() || error.message}`,
+              'bad_audio'
+            ));
+          }
+        } else {
+          resolve(stderr.toString());
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Parse a HH:MM:SS.ss time as printed by ffmpeg
+ */
+function parseFfmpegTime(value: string): number {
+  const [hours, minutes, seconds] = value.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Decode the audio once to find its length and the pauses in it
+ */
+export async function analyzeAudio(filePath: string): Promise<AudioAnalysis> {
+  const log = await runFfmpeg([
+    '-i', filePath,
+    '-vn',
+    '-af', `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_SECONDS}`,
+    '-f', 'null', '-',
+  ]);
+
+  // Recordings from MediaRecorder have no duration in their header, so fall
+  // back to the position ffmpeg reached when it finished decoding
+  const header = log.match(/Duration: (\d+:\d+:\d+(?:\.\d+)?)/);
+  const progress = Array.from(log.matchAll(/time=(\d+:\d+:\d+(?:\.\d+)?)/g)).pop();
+  const duration = header
+    ? parseFfmpegTime(header[1])
+    : progress ? parseFfmpegTime(progress[1]) : 0;
+  if (!duration) {
+    throw new TranscriptionError('Could not determine the length of the audio', 'bad_audio');
+  }
+
+  const silences: SilenceInterval[] = [];
+  let silenceStart: number | null = null;
+  for (const match of log.matchAll(/silence_(start|end): (-?\d+(?:\.\d+)?)/g)) {
+    const time = Math.max(0, Number(match[2]));
+    if (match[1] === 'start') {
+      silenceStart = time;
+    } else if (silenceStart !== null) {
+      silences.push({ start: silenceStart, end: time });
+      silenceStart = null;
+    }
+  }
+  // Silence running to the end of the file has no end line
+  if (silenceStart !== null) {
+    silences.push({ start: silenceStart, end: duration });
+  }
+
+  return { duration, silences };
+}
+
+/**
+ * Split audio into chunks no longer than `maxChunkSeconds`, cutting in the
+ * middle of the longest pause near the end of each chunk, or at the limit
+ * when nobody stops talking
+ */
+export function planChunks(analysis: AudioAnalysis, options: ChunkPlanOptions): AudioChunk[] {
+  const { duration, silences } = analysis;
+  const { maxChunkSeconds, overlapSeconds, searchSeconds } = options;
+  // What a chunk covers on its own once the overlap on both sides is taken off
+  const maxOwnSeconds = maxChunkSeconds - 2 * overlapSeconds;
+  if (maxOwnSeconds <= 0) {
+    throw new Error('Chunks must be longer than their overlap');
+  }
+
+  const chunks: AudioChunk[] = [];
+  let ownStart = 0;
+
+  while (duration - ownStart > maxOwnSeconds) {
+    const latestCut = ownStart + maxOwnSeconds;
+    const earliestCut = Math.max(ownStart + 1, latestCut - searchSeconds);
+
+    let cut = latestCut;
+    let longestPause = 0;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      const length = silence.end - silence.start;
+      if (middle >= earliestCut && middle <= latestCut && length >= longestPause) {
+        cut = middle;
+        longestPause = length;
+      }
+    }
+
+    chunks.push(createChunk(chunks.length, ownStart, cut, duration, overlapSeconds));
+    ownStart = cut;
+  }
+
+  chunks.push(createChunk(chunks.length, ownStart, duration, duration, overlapSeconds));
+  return chunks;
+}
+
+function createChunk(
+  index: number,
+  ownStart: number,
+  ownEnd: number,
+  duration: number,
+  overlapSeconds: number
+): AudioChunk {
+  return {
+    index,
+    start: Math.max(0, ownStart - overlapSeconds),
+    end: Math.min(duration, ownEnd + overlapSeconds),
+    ownStart,
+    ownEnd,
+  };
+}
+
+/**
+ * Write one chunk of the audio to `outputPath` as a small mono MP3
+ */
+export async function extractChunk(filePath: string, chunk: AudioChunk, outputPath: string): Promise<void> {
+  await runFfmpeg([
+    '-v', 'error',
+    '-ss', chunk.start.toFixed(3),
+    '-i', filePath,
+    '-t', (chunk.end - chunk.start).toFixed(3),
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-b:a', `${CHUNK_BITRATE_KBPS}k`,
+    '-y', outputPath,
+  ]);
+}
+
+/**
+ * Decode the audio to 16 kHz mono 16-bit WAV, the only input whisper.cpp reads
+ */
+export async function convertToWav(filePath: string, outputPath: string): Promise<void> {
+  await runFfmpeg([
+    '-v', 'error',
+    '-i', filePath,
+    '-vn',
+    '-ac', '1',
+    '-ar', '16000',
+    '-c:a', 'pcm_s16le',
+    '-y', outputPath,
+  ]);
+}
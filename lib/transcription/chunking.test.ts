@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkMerger, removeOverlap } from '@/lib/transcription/chunking';
+
+describe('removeOverlap', () => {
+  it('drops the words both chunks transcribed', () => {
+    expect(removeOverlap('we went to the market and bought', 'the market and bought some apples'))
+      .toBe('some apples');
+  });
+
+  it('ignores case and punctuation when comparing', () => {
+    expect(removeOverlap('Hello there, my friend.', 'My friend, how are you?')).toBe('how are you?');
+  });
+
+  it('skips words cut off at the start of the chunk', () => {
+    expect(removeOverlap('we went to the market and bought', 'ought. The market and bought some apples'))
+      .toBe('some apples');
+  });
+
+  it('keeps the text when only a single word repeats', () => {
+    expect(removeOverlap('and then I said hello', 'hello again')).toBe('hello again');
+  });
+
+  it('keeps the text of the first chunk', () => {
+    expect(removeOverlap('', ' first words ')).toBe('first words');
+  });
+});
+
+describe('ChunkMerger', () => {
+  const first = { index: 0, start: 0, end: 11.5, ownStart: 0, ownEnd: 10 };
+  const second = { index: 1, start: 8.5, end: 20, ownStart: 10, ownEnd: 20 };
+
+  it('joins plain transcripts without the repeated words', () => {
+    const merger = new ChunkMerger(20);
+
+    expect(merger.add(first, { text: 'one two three four' }, false)).toBe('one two three four');
+    expect(merger.add(second, { text: 'three four five six' }, true)).toBe('five six');
+    expect(merger.getResult()).toEqual({ text: 'one two three four five six' });
+  });
+
+  it('shifts timestamps and keeps what each chunk owns', () => {
+    const merger = new ChunkMerger(20);
+
+    merger.add(first, {
+      text: 'one two three',
+      language: 'english',
+      segments: [
+        { start: 0, end: 5, text: 'one' },
+        { start: 5, end: 9.5, text: 'two' },
+        { start: 9.6, end: 11.5, text: 'three' } // Its middle is in the next chunk
+      ],
+      words: [
+        { start: 0, end: 5, word: 'one' },
+        { start: 10.5, end: 11.5, word: 'three' }
+      ]
+    }, false);
+    const added = merger.add(second, {
+      text: 'three four',
+      segments: [
+        { start: 0, end: 3, text: 'three' },
+        { start: 3, end: 11.5, text: 'four' }
+      ],
+      words: [
+        { start: 2, end: 3, word: 'three' }
+      ]
+    }, true);
+
+    expect(added).toBe('three four');
+    expect(merger.getResult()).toEqual({
+      text: 'one two three four',
+      language: 'english',
+      duration: 20,
+      segments: [
+        { start: 0, end: 5, text: 'one' },
+        { start: 5, end: 9.5, text: 'two' },
+        { start: 8.5, end: 11.5, text: 'three' },
+        { start: 11.5, end: 20, text: 'four' }
+      ],
+      words: [
+        { start: 0, end: 5, word: 'one' },
+        { start: 10.5, end: 11.5, word: 'three' }
+      ]
+    });
+  });
+});
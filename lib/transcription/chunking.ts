@@ -0,0 +1,276 @@
+// lib/transcription/chunking.ts
+
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { analyzeAudio, AudioChunk, CHUNK_BITRATE_KBPS, extractChunk, planChunks } from './audioSplitting';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptionStreamEvent,
+  TranscriptSegment,
+  TranscriptWord,
+} from './types';
+
+export interface ChunkingOptions {
+  /** Largest file the wrapped provider accepts, in bytes */
+  maxFileSize: number;
+  /** Longest chunk in seconds, 10 minutes when omitted */
+  maxChunkSeconds?: number;
+  /** Chunks transcribed at the same time, 3 when omitted */
+  concurrency?: number;
+}
+
+const DEFAULT_CHUNK_SECONDS = 10 * 60;
+const DEFAULT_CONCURRENCY = 3;
+const OVERLAP_SECONDS = 1.5;
+const SILENCE_SEARCH_SECONDS = 60;
+
+// Longest run of words compared when removing the repeated text of an overlap
+const MAX_OVERLAP_WORDS = 30;
+// Words at the very start of a chunk may be cut off and come out garbled
+const MAX_SKIPPED_LEADING_WORDS = 2;
+
+/**
+ * Run at most `concurrency` tasks at a time, in the order they were queued
+ */
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+/**
+ * Lower-case a word and drop its punctuation so "Hello," and "hello" compare equal
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Remove the words at the start of `next` that repeat the end of `previous`,
+ * which happens when two chunks both transcribe their shared overlap
+ */
+export function removeOverlap(previous: string, next: string): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean).slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+  const nextWords = next.split(/\s+/).filter(Boolean);
+  const normalizedNext = nextWords.slice(0, MAX_OVERLAP_WORDS + MAX_SKIPPED_LEADING_WORDS).map(normalizeWord);
+
+  // Prefer the longest repeat, a single matching word is too likely to be a coincidence
+  for (let length = Math.min(previousWords.length, MAX_OVERLAP_WORDS); length >= 2; length--) {
+    const tail = previousWords.slice(-length).join(' ');
+    for (let skip = 0; skip <= MAX_SKIPPED_LEADING_WORDS; skip++) {
+      if (normalizedNext.slice(skip, skip + length).join(' ') === tail) {
+        return nextWords.slice(skip + length).join(' ');
+      }
+    }
+  }
+  return next.trim();
+}
+
+/**
+ * Puts the transcripts of consecutive chunks back together. Timestamps are
+ * shifted to the position of the chunk, and of the overlap only the part each
+ * chunk owns is kept.
+ */
+export class ChunkMerger {
+  private readonly duration: number;
+  private text = '';
+  private language: string | undefined;
+  private readonly segments: TranscriptSegment[] = [];
+  private readonly words: TranscriptWord[] = [];
+  private hasSegments = false;
+  private hasWords = false;
+
+  constructor(duration: number) {
+    this.duration = duration;
+  }
+
+  /**
+   * Add the transcript of the next chunk
+   * @returns The text it added to the transcript, without the separating space
+   */
+  add(chunk: AudioChunk, result: TranscriptionResult, isLast: boolean): string {
+    this.language = this.language ?? result.language;
+
+    // An item belongs to the chunk that owns its middle
+    const owns = (start: number, end: number) => {
+      const middle = (start + end) / 2;
+      return middle >= chunk.ownStart && (isLast || middle < chunk.ownEnd);
+    };
+
+    const segments = (result.segments ?? [])
+      .map(segment => ({ ...segment, start: segment.start + chunk.start, end: segment.end + chunk.start }))
+      .filter(segment => owns(segment.start, segment.end));
+    const words = (result.words ?? [])
+      .map(word => ({ ...word, start: word.start + chunk.start, end: word.end + chunk.start }))
+      .filter(word => owns(word.start, word.end));
+
+    this.hasSegments = this.hasSegments || !!result.segments;
+    this.hasWords = this.hasWords || !!result.words;
+    this.segments.push(...segments);
+    this.words.push(...words);
+
+    // With segments the overlap is already gone, otherwise look for repeated words
+    const added = result.segments
+      ? segments.map(segment => segment.text).join(' ').trim()
+      : removeOverlap(this.text, result.text);
+    if (added) {
+      this.text = this.text ? `${this.text} ${added}` : added;
+    }
+    return added;
+  }
+
+  getResult(): TranscriptionResult {
+    const result: TranscriptionResult = { text: this.text };
+    if (this.hasSegments || this.hasWords) {
+      result.language = this.language;
+      result.duration = this.duration;
+    }
+    if (this.hasSegments) {
+      result.segments = this.segments;
+    }
+    if (this.hasWords) {
+      result.words = this.words;
+    }
+    return result;
+  }
+}
+
+/**
+ * Wraps a provider with an upload limit. Files over the limit are split into
+ * overlapping chunks at pauses, transcribed a few at a time and merged again;
+ * smaller files go straight to the wrapped provider.
+ */
+export class ChunkingProvider implements TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly label: string;
+  readonly defaultModel: string;
+  private readonly provider: TranscriptionProvider;
+  private readonly options: ChunkingOptions;
+
+  constructor(provider: TranscriptionProvider, options: ChunkingOptions) {
+    this.provider = provider;
+    this.options = options;
+    this.id = provider.id;
+    this.label = provider.label;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  supportsTimestamps(model: string): boolean {
+    return this.provider.supportsTimestamps(model);
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    if (!(await this.needsSplitting(request.filePath))) {
+      return this.provider.transcribe(request);
+    }
+
+    let merged: TranscriptionResult = { text: '' };
+    for await (const event of this.transcribeChunks(request)) {
+      if (event.type === 'done') {
+        merged = event;
+      }
+    }
+    const { text, language, duration, segments, words } = merged;
+    return { text, language, duration, segments, words };
+  }
+
+  async *transcribeStream(request: TranscriptionRequest): AsyncGenerator<TranscriptionStreamEvent> {
+    if (!(await this.needsSplitting(request.filePath))) {
+      yield* this.provider.transcribeStream(request);
+      return;
+    }
+    yield* this.transcribeChunks(request);
+  }
+
+  private async needsSplitting(filePath: string): Promise<boolean> {
+    const stats = await fs.promises.stat(filePath);
+    return stats.size > this.options.maxFileSize;
+  }
+
+  /**
+   * Longest chunk that still fits under the upload limit once re-encoded
+   */
+  private getMaxChunkSeconds(): number {
+    // Leave some room for the MP3 container and bitrate variation
+    const fitsInLimit = Math.floor((this.options.maxFileSize * 0.9) / (CHUNK_BITRATE_KBPS * 1000 / 8));
+    return Math.min(this.options.maxChunkSeconds || DEFAULT_CHUNK_SECONDS, fitsInLimit);
+  }
+
+  /**
+   * Transcribe a large file chunk by chunk, yielding the text of every chunk
+   * as soon as it and all chunks before it are done
+   */
+  private async *transcribeChunks(request: TranscriptionRequest): AsyncGenerator<TranscriptionStreamEvent> {
+    const analysis = await analyzeAudio(request.filePath);
+    const chunks = planChunks(analysis, {
+      maxChunkSeconds: this.getMaxChunkSeconds(),
+      overlapSeconds: OVERLAP_SECONDS,
+      searchSeconds: SILENCE_SEARCH_SECONDS,
+    });
+    console.log(`Splitting ${analysis.duration.toFixed(1)}s of audio into ${chunks.length} chunks for ${this.label}`);
+
+    const chunkDir = await fs.promises.mkdtemp(join(os.tmpdir(), 'vibetranscribe-chunks-'));
+    const limit = createLimiter(this.options.concurrency || DEFAULT_CONCURRENCY);
+    let failed = false;
+
+    const transcribeChunk = (chunk: AudioChunk) => limit(async () => {
+      // Don't start more work once the transcript can't be completed anyway
+      if (failed) {
+        throw new Error('Transcription cancelled');
+      }
+      const chunkPath = join(chunkDir, `chunk-${chunk.index}.mp3`);
+      try {
+        await extractChunk(request.filePath, chunk, chunkPath);
+        console.log(`Transcribing chunk ${chunk.index + 1}/${chunks.length} (${chunk.start.toFixed(1)}s-${chunk.end.toFixed(1)}s)`);
+        return await this.provider.transcribe({ ...request, filePath: chunkPath });
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        await fs.promises.rm(chunkPath, { force: true });
+      }
+    });
+
+    try {
+      const pending = chunks.map(transcribeChunk);
+      // Failures are reported when their turn comes, not as unhandled rejections
+      pending.forEach(promise => promise.catch(() => {}));
+
+      const merger = new ChunkMerger(analysis.duration);
+      let hasText = false;
+      for (const chunk of chunks) {
+        const result = await pending[chunk.index];
+        const added = merger.add(chunk, result, chunk.index === chunks.length - 1);
+        if (added) {
+          yield { type: 'delta', text: hasText ? ` ${added}` : added };
+          hasText = true;
+        }
+      }
+
+      yield { type: 'done', ...merger.getResult() };
+    } finally {
+      failed = true;
+      await fs.promises.rm(chunkDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// lib/transcription/errors.ts
+
+/**
+ * What went wrong with a transcription, decides whether trying again can help.
+ * Shared by the API route and the client, so it has no server dependencies.
+ */
+export type TranscriptionErrorCode =
+  | 'network' // The server or the provider couldn't be reached
+  | 'timeout' // No answer in time
+  | 'rate_limit' // Too many requests or out of quota
+  | 'auth' // API key missing, invalid or without access
+  | 'config' // The server is missing a program, model or URL the provider needs
+  | 'bad_audio' // The audio or the request was rejected as invalid
+  | 'server' // The server or provider failed
+  | 'unknown';
+
+const ERROR_CODES: TranscriptionErrorCode[] = ['network', 'timeout', 'rate_limit', 'auth', 'config', 'bad_audio', 'server', 'unknown'];
+
+// Worth trying again after a while, the request itself was fine
+const RETRYABLE_CODES: TranscriptionErrorCode[] = ['network', 'timeout', 'rate_limit', 'server'];
+
+/**
+ * An error with its classification, thrown by providers and the transcription client
+ */
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  /** Seconds the server asked us to wait before trying again, if it said */
+  readonly retryAfter?: number;
+
+  constructor(message: string, code: TranscriptionErrorCode, retryAfter?: number) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+
+  get retryable(): boolean {
+    return isRetryableError(this.code);
+  }
+}
+
+/**
+ * Check whether a value is one of the error codes
+ */
+export function isTranscriptionErrorCode(value: unknown): value is TranscriptionErrorCode {
+  return typeof value === 'string' && (ERROR_CODES as string[]).includes(value);
+}
+
+/**
+ * Check whether an error of this kind may go away by trying again
+ */
+export function isRetryableError(code: TranscriptionErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code);
+}
+
+/**
+ * Classify an HTTP status from the provider or the API route
+ */
+export function getErrorCodeForStatus(status: number): TranscriptionErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status === 400 || status === 413 || status === 415 || status === 422) return 'bad_audio';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+/**
+ * HTTP status the API route answers with for an error of this kind
+ */
+export function getStatusForErrorCode(code: TranscriptionErrorCode): number {
+  switch (code) {
+    case 'rate_limit':
+      return 429;
+    case 'bad_audio':
+      return 400;
+    case 'timeout':
+      return 504;
+    case 'network':
+    case 'auth':
+      // The provider failed us, not the client
+      return 502;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Short explanation of an error kind for the user
+ */
+export function describeErrorCode(code: TranscriptionErrorCode): string {
+  switch (code) {
+    case 'network':
+      return 'No connection to the transcription service';
+    case 'timeout':
+      return 'The transcription service took too long to answer';
+    case 'rate_limit':
+      return 'Rate limit reached';
+    case 'auth':
+      return 'Check the API key';
+    case 'config':
+      return 'Check the transcription provider settings';
+    case 'bad_audio':
+      return 'The audio could not be transcribed';
+    case 'server':
+      return 'The transcription service failed';
+    default:
+      return 'Transcription failed';
+  }
+}
@@ -0,0 +1,111 @@
+// lib/transcription/glossary.ts
+
+import type { GlossaryEntry } from '../../electron/settings';
+import { TranscriptionResult } from './types';
+
+// Entries are stored with the settings, which define their shape
+export type { GlossaryEntry };
+
+// Keep requests and prompts a sensible size
+const MAX_ENTRIES = 200;
+const MAX_VARIANTS = 20;
+const MAX_TERM_LENGTH = 100;
+
+// Letters, digits and underscores from any script count as part of a word
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate glossary entries received from a client, dropping anything malformed
+ */
+export function parseGlossary(value: unknown): GlossaryEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  const entries: GlossaryEntry[] = [];
+  for (const item of value.slice(0, MAX_ENTRIES)) {
+    if (!item || typeof item !== 'object') continue;
+    const { term, variants, caseSensitive, wholeWord } = item as Record<string, unknown>;
+    if (typeof term !== 'string' || !term.trim() || term.length > MAX_TERM_LENGTH) continue;
+
+    entries.push({
+      term: term.trim(),
+      variants: Array.isArray(variants)
+        ? variants
+            .filter((variant): variant is string => typeof variant === 'string')
+            .map(variant => variant.trim())
+            .filter(variant => variant && variant.length <= MAX_TERM_LENGTH)
+            .slice(0, MAX_VARIANTS)
+        : [],
+      caseSensitive: caseSensitive === true,
+      wholeWord: wholeWord !== false,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Add the glossary terms to a prompt, which biases the model towards their spelling
+ */
+export function buildGlossaryPrompt(prompt: string | undefined, glossary: GlossaryEntry[]): string | undefined {
+  const terms = Array.from(new Set(glossary.map(entry => entry.term)));
+  if (terms.length === 0) return prompt;
+
+  const vocabulary = `Glossary: ${terms.join(', ')}.`;
+  return prompt ? `${prompt}\n${vocabulary}` : vocabulary;
+}
+
+/**
+ * Build the pattern matching every spelling of an entry that should become the term
+ */
+function buildEntryPattern(entry: GlossaryEntry): RegExp | null {
+  const spellings = [...entry.variants];
+  // Without case sensitivity the term itself is matched too, which fixes its casing
+  if (!entry.caseSensitive) {
+    spellings.push(entry.term);
+  }
+  if (spellings.length === 0) return null;
+
+  const alternatives = spellings
+    // Longest first, so "vibe transcribe" wins over "vibe"
+    .sort((a, b) => b.length - a.length)
+    // Words of a multi-word variant may be separated by any whitespace
+    .map(spelling => escapeRegExp(spelling).replace(/\s+/g, '\\s+'))
+    .join('|');
+
+  const source = entry.wholeWord
+    ? `(?<!${WORD_CHAR})(?:${alternatives})(?!${WORD_CHAR})`
+    : `(?:${alternatives})`;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Replace misrecognised spellings with the glossary terms.
+ * Entries are applied in order, so the result is the same for the same input.
+ */
+export function applyGlossary(text: string, glossary: GlossaryEntry[]): string {
+  let corrected = text;
+  for (const entry of glossary) {
+    const pattern = buildEntryPattern(entry);
+    if (pattern) {
+      corrected = corrected.replace(pattern, () => entry.term);
+    }
+  }
+  return corrected;
+}
+
+/**
+ * Apply the glossary to a transcript and its timestamped segments and words
+ */
+export function applyGlossaryToResult<T extends TranscriptionResult>(result: T, glossary: GlossaryEntry[]): T {
+  if (glossary.length === 0) return result;
+
+  return {
+    ...result,
+    text: applyGlossary(result.text, glossary),
+    segments: result.segments?.map(segment => ({ ...segment, text: applyGlossary(segment.text, glossary) })),
+    words: result.words?.map(word => ({ ...word, word: applyGlossary(word.word, glossary) })),
+  };
+}
@@ -0,0 +1,124 @@
+// lib/transcription/index.ts
+
+import { ChunkingProvider } from './chunking';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { TranscriptionProvider, TranscriptionProviderId } from './types';
+import { LocalWhisperPaths, WhisperCppProvider } from './whisperCpp';
+
+export type {
+  TimestampGranularity,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptionStreamEvent,
+  TranscriptionTask,
+  TranscriptSegment,
+  TranscriptWord,
+} from './types';
+export type { LocalWhisperPaths } from './whisperCpp';
+
+const PROVIDER_IDS: TranscriptionProviderId[] = ['openai', 'self-hosted', 'local'];
+
+// The OpenAI audio API rejects uploads over 25 MB
+const OPENAI_MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Read a positive number from the environment, undefined when unset or invalid
+ */
+function getNumberFromEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Providers are created once per server process and reused between requests
+const providers = new Map<TranscriptionProviderId, TranscriptionProvider>();
+
+// Runs on this machine, so there is no upload limit and nothing leaves it.
+// Paths from the request's settings take precedence over the environment.
+function createLocalProvider(paths: LocalWhisperPaths): WhisperCppProvider {
+  return new WhisperCppProvider({
+    binaryPath: paths.binaryPath || process.env.WHISPER_CPP_PATH,
+    modelPath: paths.modelPath || process.env.LOCAL_WHISPER_MODEL_PATH,
+    threads: getNumberFromEnv('LOCAL_WHISPER_THREADS'),
+  });
+}
+
+function createProvider(id: TranscriptionProviderId): TranscriptionProvider {
+  switch (id) {
+    case 'self-hosted':
+      return new OpenAICompatibleProvider({
+        id,
+        label: 'Self-hosted',
+        baseURL: process.env.SELF_HOSTED_TRANSCRIPTION_URL,
+        apiKey: process.env.SELF_HOSTED_TRANSCRIPTION_API_KEY,
+        apiKeyOptional: true,
+        // faster-whisper-server and speaches stream segments for every model
+        supportsStreaming: () => true,
+        supportsTimestamps: () => true,
+        defaultModel: process.env.SELF_HOSTED_TRANSCRIPTION_MODEL || 'Systran/faster-whisper-small',
+      });
+    case 'local':
+      return createLocalProvider({});
+    case 'openai':
+    default:
+      // Long recordings are split into chunks under the upload limit
+      return new ChunkingProvider(
+        new OpenAICompatibleProvider({
+          id: 'openai',
+          label: 'OpenAI',
+          apiKey: process.env.OPENAI_API_KEY,
+          defaultModel: 'whisper-1',
+          // Only the gpt-4o transcription models stream, whisper-1 answers in one piece
+          supportsStreaming: (model) => model.startsWith('gpt-4o'),
+          // verbose_json is only available for whisper-1
+          supportsTimestamps: (model) => model === 'whisper-1',
+        }),
+        {
+          maxFileSize: OPENAI_MAX_FILE_SIZE,
+          maxChunkSeconds: getNumberFromEnv('TRANSCRIPTION_CHUNK_SECONDS'),
+          concurrency: getNumberFromEnv('TRANSCRIPTION_CHUNK_CONCURRENCY'),
+        }
+      );
+  }
+}
+
+/**
+ * Check whether a value names a known transcription provider
+ */
+export function isTranscriptionProviderId(value: unknown): value is TranscriptionProviderId {
+  return typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Provider used when a request doesn't ask for one, taken from TRANSCRIPTION_PROVIDER
+ */
+export function getDefaultProviderId(): TranscriptionProviderId {
+  const configured = process.env.TRANSCRIPTION_PROVIDER;
+  if (configured && !isTranscriptionProviderId(configured)) {
+    console.warn(`Unknown TRANSCRIPTION_PROVIDER "${configured}", falling back to openai`);
+  }
+  return isTranscriptionProviderId(configured) ? configured : 'openai';
+}
+
+/**
+ * Get the transcription provider for a request
+ * @param id Provider requested by the client, or undefined to use the configured default
+ * @param localPaths Model and program the local provider should use instead of the configured ones,
+ *   already validated by the caller
+ */
+export function getTranscriptionProvider(id?: TranscriptionProviderId, localPaths?: LocalWhisperPaths): TranscriptionProvider {
+  const providerId = id ?? getDefaultProviderId();
+
+  // Not cached, the settings can name different files with every request
+  if (providerId === 'local' && (localPaths?.modelPath || localPaths?.binaryPath)) {
+    return createLocalProvider(localPaths);
+  }
+
+  let provider = providers.get(providerId);
+  if (!provider) {
+    provider = createProvider(providerId);
+    providers.set(providerId, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,269 @@
+// lib/transcription/openaiCompatible.ts
+
+import OpenAI from 'openai';
+import { multipartFormRequestOptions } from 'openai/uploads';
+import { Stream } from 'openai/streaming';
+import type { TranscriptionVerbose } from 'openai/resources/audio/transcriptions';
+import type { TranslationVerbose } from 'openai/resources/audio/translations';
+import fs from 'fs';
+import { getErrorCodeForStatus, TranscriptionError } from './errors';
+import {
+  TimestampGranularity,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptionStreamEvent,
+} from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  id: TranscriptionProviderId;
+  label: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:8000/v1 */
+  baseURL?: string;
+  defaultModel: string;
+  /** Set when the server doesn't check API keys, so a missing key is not an error */
+  apiKeyOptional?: boolean;
+  /** Whether the server can stream a transcription of the given model */
+  supportsStreaming?: (model: string) => boolean;
+  /** Whether the model supports `verbose_json` with segment and word timestamps */
+  supportsTimestamps?: (model: string) => boolean;
+}
+
+/**
+ * Raw server-sent events of the transcription endpoint. OpenAI sends typed
+ * `transcript.text.*` events, faster-whisper-server sends one `{ text }` per segment.
+ */
+interface RawStreamEvent {
+  type?: string;
+  delta?: string;
+  text?: string;
+}
+
+// Define a type for OpenAI errors
+interface OpenAIError extends Error {
+  response?: {
+    json: () => Promise<{ error: { message: string } }>;
+    statusText?: string;
+  };
+  status?: number;
+  code?: string;
+}
+
+/**
+ * Transcription provider for the OpenAI audio API and any server implementing
+ * the same `/audio/transcriptions` endpoint (faster-whisper-server, speaches, LocalAI...)
+ */
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly label: string;
+  readonly defaultModel: string;
+  private readonly options: OpenAICompatibleProviderOptions;
+  private client: OpenAI | null = null;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.options = options;
+    this.id = options.id;
+    this.label = options.label;
+    this.defaultModel = options.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    if (!this.options.apiKeyOptional && !this.options.apiKey) {
+      return false;
+    }
+    // A self-hosted endpoint is useless without somewhere to send the audio
+    if (this.id !== 'openai' && !this.options.baseURL) {
+      return false;
+    }
+    return true;
+  }
+
+  supportsTimestamps(model: string): boolean {
+    return this.options.supportsTimestamps?.(model) ?? false;
+  }
+
+  // Create the client lazily so an unconfigured provider never throws at import time
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // The SDK refuses an empty key, but self-hosted servers usually ignore it
+        apiKey: this.options.apiKey || 'not-needed',
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const { filePath, model, task, language, prompt, temperature, timestamps, signal } = request;
+
+    try {
+      if (timestamps?.length) {
+        return await this.transcribeVerbose(request, timestamps);
+      }
+
+      // Translations always come out in English, so they take no language
+      const transcription = task === 'translate'
+        ? await this.getClient().audio.translations.create({
+            file: fs.createReadStream(filePath),
+            model: model,
+            prompt,
+            temperature,
+            response_format: 'json',
+          }, { signal })
+        : await this.getClient().audio.transcriptions.create({
+            file: fs.createReadStream(filePath),
+            model: model,
+            language,
+            prompt,
+            temperature,
+            response_format: 'json',
+          }, { signal });
+
+      return { text: transcription.text };
+    } catch (apiError) {
+      console.error(`${this.label} API error:`, apiError);
+      throw await toTranscriptionError(this.label, apiError);
+    }
+  }
+
+  // Request verbose_json and keep the timestamps that were asked for
+  private async transcribeVerbose(
+    request: TranscriptionRequest,
+    timestamps: TimestampGranularity[]
+  ): Promise<TranscriptionResult> {
+    const { filePath, model, task, language, prompt, temperature, signal } = request;
+
+    // Translations only have segment timestamps
+    const verbose: TranscriptionVerbose | TranslationVerbose = task === 'translate'
+      ? await this.getClient().audio.translations.create({
+          file: fs.createReadStream(filePath),
+          model,
+          prompt,
+          temperature,
+          response_format: 'verbose_json',
+        }, { signal })
+      : await this.getClient().audio.transcriptions.create({
+          file: fs.createReadStream(filePath),
+          model,
+          language,
+          prompt,
+          temperature,
+          response_format: 'verbose_json',
+          timestamp_granularities: timestamps,
+        }, { signal });
+
+    const result: TranscriptionResult = {
+      text: verbose.text,
+      language: verbose.language,
+      duration: verbose.duration,
+    };
+    if (timestamps.includes('segment') && verbose.segments) {
+      result.segments = verbose.segments.map(({ start, end, text }) => ({ start, end, text: text.trim() }));
+    }
+    if (timestamps.includes('word') && 'words' in verbose && verbose.words) {
+      result.words = verbose.words.map(({ start, end, word }) => ({ start, end, word: word.trim() }));
+    }
+    return result;
+  }
+
+  async *transcribeStream(request: TranscriptionRequest): AsyncGenerator<TranscriptionStreamEvent> {
+    // The translations endpoint doesn't stream, and timestamps only come with the complete transcript
+    if (
+      request.task === 'translate' ||
+      request.timestamps?.length ||
+      !this.options.supportsStreaming?.(request.model)
+    ) {
+      // Nothing to stream, hand back the whole transcript at once
+      const transcription = await this.transcribe(request);
+      yield { type: 'done', ...transcription };
+      return;
+    }
+
+    let text = '';
+    try {
+      // The SDK has no typed streaming support for audio yet, so post the
+      // multipart request ourselves and let it parse the SSE response
+      const body = {
+        file: fs.createReadStream(request.filePath),
+        model: request.model,
+        language: request.language,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        response_format: 'json',
+        stream: true,
+      };
+      const stream = await this.getClient().post<unknown, Stream<RawStreamEvent>>(
+        '/audio/transcriptions',
+        multipartFormRequestOptions({ body, stream: true, signal: request.signal })
+      );
+
+      for await (const event of stream) {
+        if (event.type === 'transcript.text.delta' && event.delta) {
+          text += event.delta;
+          yield { type: 'delta', text: event.delta };
+        } else if (event.type === 'transcript.text.done' && typeof event.text === 'string') {
+          text = event.text;
+        } else if (!event.type && event.text) {
+          // One finished segment, separate it from the previous one
+          const segment = text ? ' ' + event.text.trim() : event.text.trim();
+          text += segment;
+          yield { type: 'delta', text: segment };
+        }
+      }
+    } catch (apiError) {
+      console.error(`${this.label} API streaming error:`, apiError);
+      throw await toTranscriptionError(this.label, apiError);
+    }
+
+    yield { type: 'done', text: text.trim() };
+  }
+}
+
+/**
+ * Classify an error thrown by the OpenAI SDK so the client knows whether to try again
+ */
+async function toTranscriptionError(label: string, error: unknown): Promise<TranscriptionError> {
+  const message = `${label} API error: ${await extractErrorMessage(error)}`;
+
+  // The timeout error is a connection error too, so check it first
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new TranscriptionError(message, 'timeout');
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new TranscriptionError(message, 'network');
+  }
+  if (error instanceof OpenAI.APIError && error.status) {
+    const retryAfter = Number(error.headers?.['retry-after']);
+    return new TranscriptionError(
+      message,
+      getErrorCodeForStatus(error.status),
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+    );
+  }
+  return new TranscriptionError(message, 'unknown');
+}
+
+/**
+ * Extract the most useful message from an error thrown by the OpenAI SDK
+ */
+export async function extractErrorMessage(error: unknown): Promise<string> {
+  let errorMessage = 'API error';
+  const typedError = error as OpenAIError;
+
+  if (typedError.response) {
+    try {
+      const errorData = await typedError.response.json();
+      errorMessage = errorData.error?.message || errorMessage;
+    } catch {
+      // If we can't parse the JSON, use the status text
+      errorMessage = typedError.response.statusText || errorMessage;
+    }
+  } else if (typedError.message) {
+    errorMessage = typedError.message;
+  }
+
+  return errorMessage;
+}
@@ -0,0 +1,93 @@
+// lib/transcription/types.ts
+
+/**
+ * Identifiers of the transcription backends the API route can dispatch to
+ */
+export type TranscriptionProviderId = 'openai' | 'self-hosted' | 'local';
+
+/**
+ * `transcribe` keeps the spoken language, `translate` outputs English from any language
+ */
+export type TranscriptionTask = 'transcribe' | 'translate';
+
+/**
+ * Timestamps a verbose transcription can include, segments are roughly one sentence each
+ */
+export type TimestampGranularity = 'segment' | 'word';
+
+/**
+ * A stretch of the transcript with its position in the audio, in seconds
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A single word with its position in the audio, in seconds
+ */
+export interface TranscriptWord {
+  start: number;
+  end: number;
+  word: string;
+}
+
+export interface TranscriptionRequest {
+  /** Path of the uploaded audio file in the temporary directory */
+  filePath: string;
+  /** Model name understood by the provider */
+  model: string;
+  /** Defaults to `transcribe` */
+  task?: TranscriptionTask;
+  /** ISO-639-1 code of the spoken language, detected by the model when omitted */
+  language?: string;
+  /** Text to guide the style or vocabulary of the transcript */
+  prompt?: string;
+  /** Sampling temperature between 0 and 1 */
+  temperature?: number;
+  /** Ask for verbose output with these timestamps, plain text when omitted */
+  timestamps?: TimestampGranularity[];
+  /** Aborted when nobody is waiting for the transcript any more */
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** The following are only present when timestamps were requested */
+  language?: string;
+  /** Length of the audio in seconds */
+  duration?: number;
+  segments?: TranscriptSegment[];
+  words?: TranscriptWord[];
+}
+
+/**
+ * Events emitted while a transcription is streamed.
+ * `delta` carries only the newly recognised text, `done` carries the full transcript
+ * and its timestamps, if any.
+ */
+export type TranscriptionStreamEvent =
+  | { type: 'delta'; text: string }
+  | ({ type: 'done' } & TranscriptionResult);
+
+/**
+ * A backend capable of turning an audio file into text
+ */
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  /** Human readable name used in logs and error messages */
+  readonly label: string;
+  /** Model used when the request doesn't specify one */
+  readonly defaultModel: string;
+  /** Whether the provider has everything it needs (API key, base URL) to be called */
+  isConfigured(): boolean;
+  /** Whether the model can return segment and word timestamps */
+  supportsTimestamps(model: string): boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+  /**
+   * Transcribe while yielding partial text as the backend produces it.
+   * Providers or models without streaming support yield a single `done` event.
+   */
+  transcribeStream(request: TranscriptionRequest): AsyncIterable<TranscriptionStreamEvent>;
+}
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { validateLocalWhisperPaths } from '@/lib/transcription/whisperCpp';
+
+describe('validateLocalWhisperPaths', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-paths-'));
+    fs.writeFileSync(path.join(dir, 'ggml-base.bin'), '');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '');
+    fs.writeFileSync(path.join(dir, 'whisper-cli'), '', { mode: 0o755 });
+    fs.writeFileSync(path.join(dir, 'sh'), '', { mode: 0o755 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts a ggml model and the whisper.cpp program', async () => {
+    const paths = { modelPath: path.join(dir, 'ggml-base.bin'), binaryPath: path.join(dir, 'whisper-cli') };
+    expect(await validateLocalWhisperPaths(paths)).toEqual({ paths });
+  });
+
+  it('accepts no paths', async () => {
+    expect(await validateLocalWhisperPaths({})).toEqual({ paths: {} });
+  });
+
+  it('rejects relative, missing and non-model files', async () => {
+    for (const modelPath of ['ggml-base.bin', path.join(dir, 'missing.bin'), path.join(dir, 'notes.txt'), dir]) {
+      expect(await validateLocalWhisperPaths({ modelPath })).toHaveProperty('error');
+    }
+  });
+
+  it('rejects programs other than whisper.cpp', async () => {
+    for (const binaryPath of ['whisper-cli', path.join(dir, 'sh'), path.join(dir, 'ggml-base.bin')]) {
+      expect(await validateLocalWhisperPaths({ binaryPath })).toHaveProperty('error');
+    }
+  });
+
+  it.skipIf(process.platform === 'win32')('rejects a program that is not executable', async () => {
+    const binaryPath = path.join(dir, 'main');
+    fs.writeFileSync(binaryPath, '', { mode: 0o644 });
+    expect(await validateLocalWhisperPaths({ binaryPath })).toHaveProperty('error');
+  });
+});
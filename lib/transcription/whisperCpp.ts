@@ -0,0 +1,304 @@
+// lib/transcription/whisperCpp.ts
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { convertToWav } from './audioSplitting';
+import { TranscriptionError } from './errors';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptionStreamEvent,
+  TranscriptSegment,
+  TranscriptWord,
+} from './types';
+
+/**
+ * Files the local provider runs, from the settings or the environment
+ */
+export interface LocalWhisperPaths {
+  /** whisper.cpp command line program */
+  binaryPath?: string;
+  /** ggml model file */
+  modelPath?: string;
+}
+
+/**
+ * Names the whisper.cpp command line program has had, requests can't run anything else
+ */
+const WHISPER_CPP_PROGRAM_NAMES = ['whisper-cli', 'main', 'whisper'];
+
+/**
+ * Check that paths sent with a request point to a ggml model and a whisper.cpp program,
+ * so a client can't make the server run or read arbitrary files
+ * @returns The paths, or a message describing the first invalid one
+ */
+export async function validateLocalWhisperPaths(
+  paths: LocalWhisperPaths
+): Promise<{ paths: LocalWhisperPaths } | { error: string }> {
+  const { binaryPath, modelPath } = paths;
+
+  if (modelPath) {
+    if (!path.isAbsolute(modelPath) || path.extname(modelPath) !== '.bin') {
+      return { error: `Local model must be the absolute path of a ggml .bin file: ${modelPath}` };
+    }
+    if (!await isFile(modelPath)) {
+      return { error: `Local model was not found: ${modelPath}` };
+    }
+  }
+
+  if (binaryPath) {
+    const name = path.basename(binaryPath, process.platform === 'win32' ? '.exe' : undefined);
+    if (!path.isAbsolute(binaryPath) || !WHISPER_CPP_PROGRAM_NAMES.includes(name)) {
+      return { error: `whisper.cpp must be the absolute path of ${WHISPER_CPP_PROGRAM_NAMES.join(', ')}: ${binaryPath}` };
+    }
+    if (!await isFile(binaryPath, fs.constants.X_OK)) {
+      return { error: `whisper.cpp was not found or can't be run: ${binaryPath}` };
+    }
+  }
+
+  return { paths };
+}
+
+async function isFile(filePath: string, mode = fs.constants.R_OK): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath, mode);
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+export interface WhisperCppProviderOptions {
+  /** whisper.cpp command line program, `whisper-cli` on the PATH when omitted */
+  binaryPath?: string;
+  /** ggml model file used when the request doesn't name one, other models are looked up next to it */
+  modelPath?: string;
+  /** CPU threads to use, whisper.cpp decides when omitted */
+  threads?: number;
+}
+
+/**
+ * The parts of `whisper-cli --output-json-full` we use, offsets are in milliseconds
+ */
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: { text: string; offsets: { from: number; to: number } }[];
+  }[];
+}
+
+// A finished segment as printed while transcribing: "[00:00:00.000 --> 00:00:03.120]  Hello there."
+const SEGMENT_LINE_PATTERN = /^\[\d+:\d+:\d+\.\d+ --> \d+:\d+:\d+\.\d+\]\s*(.*)$/;
+
+/**
+ * Transcription provider that runs a Whisper model on this machine with whisper.cpp,
+ * so the audio never leaves it. The model named in a request is a ggml file in the
+ * same directory as the configured one, e.g. `ggml-small.en.bin`.
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly id: TranscriptionProviderId = 'local';
+  readonly label = 'Local (whisper.cpp)';
+  readonly defaultModel: string;
+  private readonly options: WhisperCppProviderOptions;
+
+  constructor(options: WhisperCppProviderOptions) {
+    this.options = options;
+    this.defaultModel = options.modelPath ? path.basename(options.modelPath) : '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.modelPath && fs.existsSync(this.options.modelPath);
+  }
+
+  // whisper.cpp reports segment and token offsets for every model
+  supportsTimestamps(): boolean {
+    return true;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    for await (const output of this.run(request)) {
+      if (typeof output !== 'string') {
+        return output;
+      }
+    }
+    throw new TranscriptionError(`${this.label} finished without a transcript`, 'server');
+  }
+
+  async *transcribeStream(request: TranscriptionRequest): AsyncIterable<TranscriptionStreamEvent> {
+    let hasText = false;
+    for await (const output of this.run(request)) {
+      if (typeof output === 'string') {
+        yield { type: 'delta', text: hasText ? ` ${output}` : output };
+        hasText = true;
+      } else {
+        yield { type: 'done', ...output };
+      }
+    }
+  }
+
+  /**
+   * Run whisper.cpp on the audio, yielding the text of each segment as it is
+   * recognised and then the complete result
+   */
+  private async *run(request: TranscriptionRequest): AsyncGenerator<string | TranscriptionResult> {
+    const modelPath = this.resolveModelPath(request.model);
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-'));
+
+    try {
+      // whisper.cpp only reads 16 kHz WAV
+      const wavPath = path.join(workDir, 'audio.wav');
+      await convertToWav(request.filePath, wavPath);
+
+      const outputBase = path.join(workDir, 'result');
+      const args = [
+        '-m', modelPath,
+        '-f', wavPath,
+        '-l', request.language || 'auto',
+        '--output-json-full',
+        '-of', outputBase,
+        '--no-prints',
+      ];
+      if (request.task === 'translate') args.push('--translate');
+      if (request.prompt) args.push('--prompt', request.prompt);
+      if (request.temperature !== undefined) args.push('--temperature', String(request.temperature));
+      if (this.options.threads) args.push('--threads', String(this.options.threads));
+
+      if (request.signal?.aborted) {
+        throw new TranscriptionError('Transcription was cancelled', 'unknown');
+      }
+      console.log(`Running whisper.cpp with model ${path.basename(modelPath)}`);
+      const child = spawn(this.options.binaryPath || 'whisper-cli', args, { windowsHide: true });
+
+      // The client went away, nobody will read the transcript
+      const abort = () => child.kill();
+      request.signal?.addEventListener('abort', abort, { once: true });
+
+      let stderr = '';
+      child.stderr.on('data', (data: Buffer) => {
+        // Only the end is interesting when it fails
+        stderr = (stderr + data.toString()).slice(-4000);
+      });
+      const exited = new Promise<void>((resolve, reject) => {
+        child.on('error', (error: NodeJS.ErrnoException) => {
+          reject(error.code === 'ENOENT'
+            ? new TranscriptionError('whisper.cpp was not found, install it or set WHISPER_CPP_PATH', 'config')
+            : new TranscriptionError(`Could not run whisper.cpp: ${error.message}`, 'server'));
+        });
+        child.on('close', (code) => {
+          if (code === 0) {
+            resolve();
+          } else if (request.signal?.aborted) {
+            reject(new TranscriptionError('Transcription was cancelled', 'unknown'));
+          } else {
+            const reason = stderr.trim().split('\n').pop() || `exit code ${code}`;
+            reject(new TranscriptionError(`whisper.cpp failed: ${reason}`, 'server'));
+          }
+        });
+      });
+      // Reported after the output has been read, not as an unhandled rejection
+      exited.catch(() => {});
+
+      try {
+        // Segments are printed as soon as they are recognised
+        for await (const line of readline.createInterface({ input: child.stdout })) {
+          const text = line.match(SEGMENT_LINE_PATTERN)?.[1].trim();
+          if (text) {
+            yield text;
+          }
+        }
+        await exited;
+      } finally {
+        request.signal?.removeEventListener('abort', abort);
+        // The consumer gave up, don't leave the model running
+        if (child.exitCode === null) {
+          child.kill();
+        }
+      }
+
+      const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+      yield toTranscriptionResult(output, request);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // Models are only looked up next to the configured one, requests can't point anywhere else
+  private resolveModelPath(model: string): string {
+    const { modelPath } = this.options;
+    if (!modelPath) {
+      throw new TranscriptionError(`${this.label} has no model, set LOCAL_WHISPER_MODEL_PATH`, 'config');
+    }
+    if (!model || model === this.defaultModel) {
+      return modelPath;
+    }
+
+    const resolved = path.join(path.dirname(modelPath), path.basename(model));
+    if (!fs.existsSync(resolved)) {
+      throw new TranscriptionError(`Model ${model} was not found next to ${path.basename(modelPath)}`, 'config');
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Build the result from the JSON file, with the timestamps the request asked for
+ */
+function toTranscriptionResult(output: WhisperCppOutput, request: TranscriptionRequest): TranscriptionResult {
+  const transcription = output.transcription ?? [];
+  const segments: TranscriptSegment[] = transcription
+    .map(segment => ({
+      start: segment.offsets.from / 1000,
+      end: segment.offsets.to / 1000,
+      text: segment.text.trim(),
+    }))
+    .filter(segment => segment.text);
+
+  const text = segments.map(segment => segment.text).join(' ');
+  if (!request.timestamps?.length) {
+    return { text };
+  }
+
+  const result: TranscriptionResult = {
+    text,
+    language: output.result?.language,
+    duration: segments.length ? segments[segments.length - 1].end : 0,
+  };
+  if (request.timestamps.includes('segment')) {
+    result.segments = segments;
+  }
+  if (request.timestamps.includes('word')) {
+    result.words = getWords(transcription);
+  }
+  return result;
+}
+
+/**
+ * Join the tokens of each segment into words, a token starting with a space starts a new one
+ */
+function getWords(transcription: NonNullable<WhisperCppOutput['transcription']>): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  for (const segment of transcription) {
+    for (const token of segment.tokens ?? []) {
+      // Special tokens such as [_BEG_] and [_TT_150] aren't text
+      if (!token.text || token.text.startsWith('[_')) continue;
+
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const current = words[words.length - 1];
+      if (current && !/^\s/.test(token.text)) {
+        current.word += token.text;
+        current.end = end;
+      } else if (token.text.trim()) {
+        words.push({ start, end, word: token.text.trim() });
+      }
+    }
+  }
+  return words;
+}
@@ -1,17 +1,98 @@
+interface TranscriptionMetadata {
+  durationMs?: number;
+  microphone?: string;
+  fileName?: string; // Name of the transcribed file, when it wasn't recorded
+  model?: string;
+  rawText?: string; // Transcript before it was refined
+  refinePreset?: string; // Refine mode that produced the text
+}
+
+// Why a transcription came back without text
+type EmptyTranscriptionReason = 'no_audio' | 'no_speech';
+
+// How a transcription ended, as sent to the main process. Only successful
+// transcripts are copied, pasted and kept in the history.
+type TranscriptionOutcome =
+  | { status: 'success'; text: string; metadata?: TranscriptionMetadata }
+  | { status: 'empty'; reason: EmptyTranscriptionReason; message: string }
+  | { status: 'error'; code: import('../lib/transcription/errors').TranscriptionErrorCode; message: string };
+
+interface TranscriptionHistoryEntry extends TranscriptionMetadata {
+  id: string;
+  timestamp: number;
+  text: string;
+}
+
+// An audio or video file read by the main process, to be transcribed
+interface MediaFileData {
+  name: string;
+  data: Uint8Array;
+}
+
+// The settings are defined once, next to the main process code that validates them
+type AutoPasteOptions = import('../electron/settings').AutoPasteOptions;
+type ShortcutAction = import('../electron/settings').ShortcutAction;
+type ShortcutBindings = import('../electron/settings').ShortcutBindings; // Electron accelerator for each action
+type ShortcutConflict = import('../electron/shortcuts').ShortcutConflict;
+
+// What became of new shortcut bindings, refused when any conflict isn't external
+interface ShortcutSaveResult {
+  saved: boolean;
+  bindings: ShortcutBindings;
+  conflicts: ShortcutConflict[];
+}
+
+type GlossaryEntry = import('../electron/settings').GlossaryEntry;
+type VoiceCommandOptions = import('../electron/settings').VoiceCommandOptions;
+
+// Persistent settings, stored by the main process or in localStorage in the browser
+type AppSettings = import('../electron/settings').Settings;
+type AppSettingsChanges = import('../electron/settings').SettingsChanges;
+
+type ActivityState = 'idle' | 'recording' | 'transcribing';
+
+interface StartRecordingOptions {
+  pushToTalk?: boolean; // Recording lasts as long as the push-to-talk shortcut is held
+}
+
 interface ElectronAPI {
-  onStartRecording: (callback: () => void) => () => void;
+  onStartRecording: (callback: (options: StartRecordingOptions) => void) => () => void;
   onStopRecording: (callback: () => void) => () => void;
-  sendTranscriptionComplete: (text: string) => void;
+  onCancelRecording: (callback: () => void) => () => void;
+  sendTranscriptionComplete: (outcome: TranscriptionOutcome) => void;
   hideWindow: () => void;
   showWindow: () => void;
   setWindowSize: (expanded: boolean) => void;
   checkShortcutRegistration: () => Promise<boolean>;
   refreshShortcuts: () => Promise<boolean>;
-  sendMouseEvent: (type: 'enter' | 'leave') => void;
-  updateInteractiveRegion: (region: { reset?: boolean } | null) => void;
+  checkShortcutConflicts: (bindings: ShortcutBindings) => Promise<ShortcutConflict[]>;
+  setShortcutBindings: (bindings: ShortcutBindings) => Promise<ShortcutSaveResult>;
+  setShortcutsPaused: (paused: boolean) => void;
+  sendRecordingState: (state: ActivityState) => void;
+  sendMicrophones: (microphones: { deviceId: string; name: string }[], selectedId: string) => void; // Offered in the tray menu
+  releasePushToTalk: () => void;
+  holdPushToTalk: () => void; // The push-to-talk keys are repeating, so still held
+  sendMousePosition: (x: number, y: number) => void; // Window coordinates of a (forwarded) mouse move
+  // Rects in window coordinates that take the mouse, reset makes the whole window click-through
+  updateInteractiveRegion: (region: { rects?: { x: number; y: number; width: number; height: number }[]; reset?: boolean } | null) => void;
+  startWindowDrag: () => void; // The overlay follows the mouse pointer until endWindowDrag
+  endWindowDrag: () => void;
   logMicrophoneInfo: (label: string) => void;
+  getSettings: () => Promise<AppSettings>;
+  // Shortcuts among the changes are saved like setShortcutBindings, which may refuse them
+  setSettings: (changes: AppSettingsChanges) => Promise<{ settings: AppSettings; shortcuts?: ShortcutSaveResult }>;
+  onOpenSettings: (callback: () => void) => () => void; // Settings picked from the tray menu
+  onSettingsChanged: (callback: (settings: AppSettings) => void) => () => void;
+  getHistory: (limit?: number) => Promise<TranscriptionHistoryEntry[]>;
+  searchHistory: (query: string, limit?: number) => Promise<TranscriptionHistoryEntry[]>;
+  deleteHistoryEntry: (id: string) => Promise<boolean>;
+  copyHistoryEntry: (id: string, raw?: boolean) => Promise<boolean>;
+  saveTranscript: (content: string, fileName: string) => Promise<string | null>; // Path saved to, null if cancelled
+  pickFileForTranscription: () => Promise<boolean>; // False if no file was picked
+  onTranscribeFile: (callback: (file: MediaFileData) => void) => () => void;
+  onHistoryChanged: (callback: () => void) => () => void;
 }
 
 interface Window {
   electronAPI: ElectronAPI;
-} 
\ No newline at end of file
+}
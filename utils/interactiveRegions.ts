@@ -0,0 +1,110 @@
+// utils/interactiveRegions.ts
+
+/**
+ * Parts of the overlay that take the mouse. The status bar container spans the
+ * whole width, so its pill is used instead; everything else lets clicks through
+ * to the app underneath.
+ */
+const INTERACTIVE_SELECTOR = [
+  '.status-bar-container > div',
+  '.mic-dropdown-menu',
+  '.transcription-container',
+  '.history-panel-container',
+  '.shortcut-settings-container',
+  '.settings-panel-container',
+  '.glossary-editor-container',
+  '.refine-mode-container',
+  '.transcription-queue-container'
+].join(', ');
+
+/** Room around each element so the pointer doesn't fall through at its rounded edges */
+const REGION_PADDING = 4;
+
+/** A rectangle in window coordinates (CSS pixels) */
+export interface InteractiveRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Measure the interactive elements that are currently visible
+ */
+export function getInteractiveRects(): InteractiveRect[] {
+  const rects: InteractiveRect[] = [];
+  document.querySelectorAll<HTMLElement>(INTERACTIVE_SELECTOR).forEach(element => {
+    // Hidden panels fade out with pointer-events: none, which their children inherit
+    const style = getComputedStyle(element);
+    if (style.pointerEvents === 'none' || style.visibility === 'hidden') return;
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    rects.push({
+      x: Math.floor(rect.left - REGION_PADDING),
+      y: Math.floor(rect.top - REGION_PADDING),
+      width: Math.ceil(rect.width + REGION_PADDING * 2),
+      height: Math.ceil(rect.height + REGION_PADDING * 2)
+    });
+  });
+  return rects;
+}
+
+/**
+ * Keep the main process up to date with the interactive regions and forward
+ * mouse moves, so it can make the window click-through wherever they aren't
+ * @returns A function that stops tracking
+ */
+export function trackInteractiveRegions(
+  api: Pick<ElectronAPI, 'updateInteractiveRegion' | 'sendMousePosition'>
+): () => void {
+  let frame: number | null = null;
+  let lastReported = '';
+
+  // Measured once per frame however many changes there were
+  const report = () => {
+    frame = null;
+    const rects = getInteractiveRects();
+    const serialized = JSON.stringify(rects);
+    if (serialized !== lastReported) {
+      lastReported = serialized;
+      api.updateInteractiveRegion({ rects });
+    }
+  };
+  const scheduleReport = () => {
+    if (frame === null) {
+      frame = requestAnimationFrame(report);
+    }
+  };
+
+  // Panels open and close by changing classes, and slide into place with transitions
+  const observer = new MutationObserver(scheduleReport);
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['class', 'style']
+  });
+  document.addEventListener('transitionend', scheduleReport);
+  window.addEventListener('resize', scheduleReport);
+
+  // While the window is click-through these are forwarded by Electron
+  const handleMouseMove = (event: MouseEvent) => {
+    api.sendMousePosition(event.clientX, event.clientY);
+  };
+  document.addEventListener('mousemove', handleMouseMove);
+
+  scheduleReport();
+
+  return () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+    }
+    observer.disconnect();
+    document.removeEventListener('transitionend', scheduleReport);
+    window.removeEventListener('resize', scheduleReport);
+    document.removeEventListener('mousemove', handleMouseMove);
+    api.updateInteractiveRegion({ reset: true });
+  };
+}
@@ -2,12 +2,223 @@
 
 type ShortcutHandler = () => void;
 
+export type ShortcutHandlers = Partial<Record<ShortcutAction, ShortcutHandler>> & {
+  pushToTalkRelease?: ShortcutHandler; // Called when the push-to-talk combination is let go
+};
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['start', 'stop', 'cancel', 'toggle', 'pushToTalk'];
+
+export const SHORTCUT_ACTION_LABELS: Record<ShortcutAction, string> = {
+  start: 'Start recording',
+  stop: 'Stop recording',
+  cancel: 'Cancel recording',
+  toggle: 'Toggle recording',
+  pushToTalk: 'Push to talk (hold)'
+};
+
+// Same defaults as the Electron main process
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  start: 'CommandOrControl+Shift+R',
+  stop: 'Escape',
+  cancel: '',
+  toggle: '',
+  pushToTalk: ''
+};
+
 // Keep track of whether keyboard shortcuts are set up
 let isInitialized = false;
+// Set while the user is recording a new binding
+let isPaused = false;
+// Set while the push-to-talk combination is held down.
+// Module level so it survives the listeners being set up again mid-hold.
+let isPushToTalkHeld = false;
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac/i.test(navigator.platform);
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  'ArrowUp': 'Up',
+  'ArrowDown': 'Down',
+  'ArrowLeft': 'Left',
+  'ArrowRight': 'Right',
+  '+': 'Plus',
+  'Esc': 'Escape'
+};
+
+/**
+ * Get the accelerator key name of a keyboard event, or null for a bare modifier
+ */
+function getAcceleratorKey(event: KeyboardEvent): string | null {
+  if (['Control', 'Shift', 'Alt', 'Meta', 'AltGraph'].includes(event.key)) {
+    return null;
+  }
+  // Use the physical key for letters and digits so Shift doesn't change them
+  if (/^Key[A-Z]$/.test(event.code)) return event.code.slice(3);
+  if (/^Digit\d$/.test(event.code)) return event.code.slice(5);
+  if (KEY_NAMES[event.key]) return KEY_NAMES[event.key];
+  return event.key.length === 1 ? event.key.toUpperCase() : event.key;
+}
+
+/**
+ * Build an Electron accelerator string from a keyboard event
+ * @returns The accelerator, or null while only modifiers are held
+ */
+export function acceleratorFromEvent(event: KeyboardEvent): string | null {
+  const key = getAcceleratorKey(event);
+  if (!key) return null;
+
+  const parts: string[] = [];
+  const mac = isMac();
+  if ((mac && event.metaKey) || (!mac && event.ctrlKey)) parts.push('CommandOrControl');
+  if (mac && event.ctrlKey) parts.push('Control');
+  if (!mac && event.metaKey) parts.push('Super');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  parts.push(key);
+
+  return parts.join('+');
+}
+
+/**
+ * Normalize an accelerator so equivalent spellings compare equal on this platform
+ */
+function normalizeAccelerator(accelerator: string): string {
+  const mac = isMac();
+  return accelerator
+    .split('+')
+    .map(part => part.trim().toLowerCase())
+    .map(part => {
+      switch (part) {
+        case 'commandorcontrol':
+        case 'cmdorctrl':
+          return mac ? 'meta' : 'ctrl';
+        case 'control':
+        case 'ctrl':
+          return 'ctrl';
+        case 'command':
+        case 'cmd':
+        case 'super':
+        case 'meta':
+          return 'meta';
+        case 'option':
+        case 'altgr':
+          return 'alt';
+        case 'esc':
+          return 'escape';
+        case 'return':
+          return 'enter';
+        default:
+          return part;
+      }
+    })
+    .sort()
+    .join('+');
+}
+
+/**
+ * Check whether a keyboard event matches an accelerator
+ */
+export function matchesAccelerator(event: KeyboardEvent, accelerator: string): boolean {
+  if (!accelerator) return false;
+  const pressed = acceleratorFromEvent(event);
+  return !!pressed && normalizeAccelerator(pressed) === normalizeAccelerator(accelerator);
+}
+
+/**
+ * Check whether a key event is for any key in an accelerator. Letting go of one
+ * ends a push-to-talk hold even if other keys are still down, and one repeating
+ * means the hold goes on.
+ */
+export function isAcceleratorKey(event: KeyboardEvent, accelerator: string): boolean {
+  if (!accelerator) return false;
+
+  let released: string | null;
+  switch (event.key) {
+    case 'Control':
+      released = 'ctrl';
+      break;
+    case 'Meta':
+      released = 'meta';
+      break;
+    case 'Shift':
+      released = 'shift';
+      break;
+    case 'Alt':
+    case 'AltGraph':
+      released = 'alt';
+      break;
+    default:
+      released = getAcceleratorKey(event);
+  }
+
+  return !!released && normalizeAccelerator(accelerator).split('+').includes(normalizeAccelerator(released));
+}
+
+/**
+ * Format an accelerator for display, e.g. "CommandOrControl+Shift+R" -> "Ctrl+Shift+R"
+ */
+export function formatAccelerator(accelerator: string): string {
+  if (!accelerator) return 'Not set';
+  const mac = isMac();
+  return accelerator
+    .split('+')
+    .map(part => {
+      switch (part.toLowerCase()) {
+        case 'commandorcontrol':
+        case 'cmdorctrl':
+          return mac ? '⌘' : 'Ctrl';
+        case 'command':
+        case 'cmd':
+          return '⌘';
+        case 'control':
+          return 'Ctrl';
+        case 'escape':
+          return 'Esc';
+        default:
+          return part;
+      }
+    })
+    .join('+');
+}
+
+/**
+ * Find actions bound to the same shortcut as an earlier action
+ */
+export function findDuplicateShortcuts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const seen = new Map<string, ShortcutAction>();
+
+  for (const action of SHORTCUT_ACTIONS) {
+    const accelerator = bindings[action];
+    if (!accelerator) continue;
+
+    const normalized = normalizeAccelerator(accelerator);
+    const previousAction = seen.get(normalized);
+    if (previousAction) {
+      conflicts.push({
+        action,
+        accelerator,
+        reason: 'duplicate',
+        message: `${formatAccelerator(accelerator)} is already used for ${SHORTCUT_ACTION_LABELS[previousAction]}`
+      });
+    } else {
+      seen.set(normalized, action);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Stop handling shortcuts while the user records a new binding
+ */
+export const setKeyboardShortcutsPaused = (paused: boolean) => {
+  isPaused = paused;
+};
 
 export const setupKeyboardShortcuts = (
-  startRecordingHandler: ShortcutHandler,
-  stopRecordingHandler: ShortcutHandler
+  handlers: ShortcutHandlers,
+  bindings: ShortcutBindings = DEFAULT_SHORTCUT_BINDINGS
 ) => {
   // Only run on the client side
   if (typeof window === 'undefined') {
@@ -25,47 +236,74 @@ export const setupKeyboardShortcuts = (
 
   // Function to handle keydown events with high priority
   const handleKeyDown = (event: KeyboardEvent) => {
-    // Check for Ctrl+Shift+R with case-insensitive 'r' check
-    if (event.ctrlKey && event.shiftKey && (event.key === 'r' || event.key === 'R')) {
-      console.log('Ctrl+Shift+R pressed!');
-      
-      // Stop propagation to prevent other handlers from capturing this event
-      event.stopPropagation();
-      event.stopImmediatePropagation();
-      event.preventDefault();
-      
-      // Delay execution slightly to ensure the event doesn't get captured elsewhere
-      setTimeout(() => {
-        startRecordingHandler();
-      }, 0);
-      
-      return false;
-    }
-    
-    // Check for Escape
-    if (event.key === 'Escape') {
-      console.log('Escape pressed!');
-      event.preventDefault();
-      stopRecordingHandler();
-      return false;
+    if (isPaused) return;
+
+    const action = SHORTCUT_ACTIONS.find(candidate => matchesAccelerator(event, bindings[candidate]));
+    const handler = action && handlers[action];
+    if (!action || !handler) return;
+
+    // Stop propagation to prevent other handlers from capturing this event
+    event.stopPropagation();
+    event.stopImmediatePropagation();
+    event.preventDefault();
+
+    // Push-to-talk fires once per hold, not on every key repeat
+    if (action === 'pushToTalk') {
+      if (event.repeat || isPushToTalkHeld) return false;
+      isPushToTalkHeld = true;
     }
+
+    console.log(`${formatAccelerator(bindings[action])} pressed (${action})!`);
+
+    // Delay execution slightly to ensure the event doesn't get captured elsewhere
+    setTimeout(() => {
+      handler();
+    }, 0);
+
+    return false;
   };
 
   // Add the event listener with capture phase to get it early in the event chain
   window.addEventListener('keydown', handleKeyDown, { capture: true });
-  
+
   // Also register a lower-priority backup handler in case the high-priority one doesn't catch it
   const backupHandler = (event: KeyboardEvent) => {
-    // Only handle Ctrl+Shift+R and intentionally let other events pass through
-    if (event.ctrlKey && event.shiftKey && (event.key === 'r' || event.key === 'R')) {
-      console.log('Ctrl+Shift+R caught by backup handler!');
+    // Only handle the start shortcut and intentionally let other events pass through
+    if (!isPaused && handlers.start && matchesAccelerator(event, bindings.start)) {
+      console.log('Start shortcut caught by backup handler!');
       event.preventDefault();
-      startRecordingHandler();
+      handlers.start();
     }
   };
-  
+
   window.addEventListener('keydown', backupHandler);
-  
+
+  // End push-to-talk when any key of the combination is let go
+  const releasePushToTalk = () => {
+    isPushToTalkHeld = false;
+    console.log('Push-to-talk released!');
+    if (handlers.pushToTalkRelease) {
+      setTimeout(handlers.pushToTalkRelease, 0);
+    }
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (isPushToTalkHeld && isAcceleratorKey(event, bindings.pushToTalk)) {
+      event.preventDefault();
+      releasePushToTalk();
+    }
+  };
+
+  // We never see the keyup if the window loses focus mid-hold
+  const handleBlur = () => {
+    if (isPushToTalkHeld) {
+      releasePushToTalk();
+    }
+  };
+
+  window.addEventListener('keyup', handleKeyUp, { capture: true });
+  window.addEventListener('blur', handleBlur);
+
   isInitialized = true;
   console.log('Keyboard shortcuts set up successfully');
 
@@ -74,6 +312,8 @@ export const setupKeyboardShortcuts = (
     console.log('Cleaning up keyboard shortcuts');
     window.removeEventListener('keydown', handleKeyDown, { capture: true });
     window.removeEventListener('keydown', backupHandler);
+    window.removeEventListener('keyup', handleKeyUp, { capture: true });
+    window.removeEventListener('blur', handleBlur);
     isInitialized = false;
   };
-}; 
\ No newline at end of file
+};
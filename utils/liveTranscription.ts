@@ -0,0 +1,163 @@
+// utils/liveTranscription.ts
+
+import { TranscriptionError } from "@/lib/transcription/errors";
+import { transcribeBlob, TranscribeOptions, TranscriptionResponse } from "@/utils/transcriptionClient";
+
+// Chunks smaller than this are container headers without real audio
+const MIN_CHUNK_SIZE = 1000;
+
+export interface LiveTranscriptionOptions extends Omit<TranscribeOptions, 'onProgress'> {
+  /** Called with the stitched transcript every time a chunk makes progress */
+  onProgress?: (text: string) => void;
+}
+
+/**
+ * Transcribes the chunks of a recording while it is still running.
+ * Chunks are sent to /api/transcribe one at a time in the order they were
+ * recorded, and their results are stitched into one transcript.
+ */
+export class LiveTranscriptionSession {
+  private readonly options: LiveTranscriptionOptions;
+  private readonly segments: string[] = [];
+  // Full result of every chunk, for its timestamps
+  private readonly results: (TranscriptionResponse | null)[] = [];
+  private pendingText = '';
+  private queue: Promise<void> = Promise.resolve();
+  private failedChunks = 0;
+  // Audio of the chunks whose request failed, so it can be queued and tried again
+  private readonly failedAudio: { audio: Blob; error: TranscriptionError }[] = [];
+  private lastError: Error | null = null;
+  private cancelled = false;
+  /** Model reported by the server for the most recent chunk */
+  model: string | undefined;
+
+  constructor(options: LiveTranscriptionOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Queue a recorded chunk for transcription
+   */
+  enqueue(chunk: Blob) {
+    if (this.cancelled) return;
+    if (chunk.size < MIN_CHUNK_SIZE) {
+      console.log("Skipping live chunk without meaningful audio, size:", chunk.size);
+      return;
+    }
+
+    const index = this.segments.length;
+    // Reserve the slot now so results always land in recording order
+    this.segments.push('');
+    this.results.push(null);
+
+    this.queue = this.queue.then(() => this.transcribeChunk(chunk, index));
+  }
+
+  /**
+   * Wait for every queued chunk and return the stitched transcript,
+   * with timestamps relative to the start of the recording if they were requested
+   */
+  async finish(): Promise<TranscriptionResponse> {
+    await this.queue;
+
+    const text = this.getText();
+    if (!text && this.lastError) {
+      throw this.lastError;
+    }
+    if (this.failedChunks > 0) {
+      console.warn(`Live transcription finished with ${this.failedChunks} failed chunk(s)`);
+    }
+    return { ...this.getTimestamps(), text, model: this.model };
+  }
+
+  /**
+   * Drop the recording: chunks still waiting in the queue are never sent
+   * and no further progress is reported
+   */
+  cancel() {
+    this.cancelled = true;
+  }
+
+  /**
+   * Chunks that could not be transcribed, with the reason
+   */
+  getFailedChunks(): { audio: Blob; error: TranscriptionError }[] {
+    return [...this.failedAudio];
+  }
+
+  /**
+   * Stitched transcript of the finished chunks plus the partial text of the current one
+   */
+  getText(): string {
+    return [...this.segments, this.pendingText]
+      .map(segment => segment.trim())
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Shift the timestamps of every chunk by the length of the chunks before it.
+   * A failed chunk has no length, so everything after it comes out early by that much.
+   */
+  private getTimestamps(): Pick<TranscriptionResponse, 'language' | 'duration' | 'segments' | 'words'> {
+    if (!this.options.timestamps?.length) return {};
+
+    let offset = 0;
+    let language: string | undefined;
+    const segments: NonNullable<TranscriptionResponse['segments']> = [];
+    const words: NonNullable<TranscriptionResponse['words']> = [];
+
+    for (const result of this.results) {
+      if (!result) continue;
+      language = language ?? result.language;
+
+      for (const segment of result.segments ?? []) {
+        segments.push({ ...segment, start: segment.start + offset, end: segment.end + offset });
+      }
+      for (const word of result.words ?? []) {
+        words.push({ ...word, start: word.start + offset, end: word.end + offset });
+      }
+      offset += result.duration ?? result.segments?.[result.segments.length - 1]?.end ?? 0;
+    }
+
+    return {
+      language,
+      duration: offset || undefined,
+      segments: segments.length > 0 ? segments : undefined,
+      words: words.length > 0 ? words : undefined,
+    };
+  }
+
+  private async transcribeChunk(chunk: Blob, index: number) {
+    if (this.cancelled) return;
+    console.log(`Transcribing live chunk ${index}, size:`, chunk.size);
+
+    try {
+      const result = await transcribeBlob(chunk, {
+        ...this.options,
+        onProgress: (partial) => {
+          if (this.cancelled) return;
+          this.pendingText = partial;
+          this.options.onProgress?.(this.getText());
+        },
+      });
+      this.segments[index] = result.text;
+      this.results[index] = result;
+      this.model = result.model ?? this.model;
+    } catch (error) {
+      // Keep going so one bad chunk doesn't lose the rest of the dictation
+      console.error(`Error transcribing live chunk ${index}:`, error);
+      this.failedChunks++;
+      this.lastError = error instanceof Error ? error : new Error(String(error));
+      if (error instanceof TranscriptionError) {
+        this.failedAudio.push({ audio: chunk, error });
+      }
+    } finally {
+      this.pendingText = '';
+    }
+
+    if (!this.cancelled) {
+      this.options.onProgress?.(this.getText());
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// utils/mediaFiles.ts
+
+// Formats the transcription API accepts, by file extension
+const MEDIA_TYPES: Record<string, string> = {
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  mpeg: 'video/mpeg',
+  mpga: 'audio/mpeg',
+  oga: 'audio/ogg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  webm: 'video/webm',
+};
+
+export const SUPPORTED_MEDIA_EXTENSIONS = Object.keys(MEDIA_TYPES);
+
+/** Value for the `accept` attribute of a file input */
+export const MEDIA_FILE_ACCEPT = SUPPORTED_MEDIA_EXTENSIONS.map(extension => `.${extension}`).join(',');
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Check whether a file can be sent for transcription, going by its extension
+ */
+export function isSupportedMediaFile(fileName: string): boolean {
+  return getExtension(fileName) in MEDIA_TYPES;
+}
+
+/**
+ * Wrap file contents received from the main process in a File the Transcriber can send
+ */
+export function createMediaFile(fileName: string, data: Uint8Array): File {
+  return new File([data], fileName, { type: MEDIA_TYPES[getExtension(fileName)] || '' });
+}
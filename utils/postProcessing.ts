@@ -0,0 +1,56 @@
+// utils/postProcessing.ts
+
+import { applyVoiceCommands, getVoiceCommandSet } from "@/utils/voiceCommands";
+
+export interface PostProcessingOptions {
+  voiceCommands: VoiceCommandOptions;
+  language: string; // Spoken language code, empty when auto-detected
+  translate: boolean; // The transcript is English whatever was spoken
+}
+
+/**
+ * A step of the pipeline, taking and returning the whole transcript
+ */
+type TextProcessor = (text: string) => string;
+
+/**
+ * Language whose voice commands apply to a transcript
+ */
+export function getVoiceCommandLanguage(options: PostProcessingOptions): string {
+  if (options.voiceCommands.language) {
+    return options.voiceCommands.language;
+  }
+  if (options.translate) {
+    return 'en';
+  }
+  // Auto-detected transcripts use the English commands
+  return getVoiceCommandSet(options.language) ? options.language : 'en';
+}
+
+/**
+ * Steps enabled by the options, in the order they run
+ */
+function buildPipeline(options: PostProcessingOptions): TextProcessor[] {
+  const steps: TextProcessor[] = [];
+
+  if (options.voiceCommands.enabled) {
+    const commands = getVoiceCommandSet(getVoiceCommandLanguage(options));
+    if (commands) {
+      steps.push(text => applyVoiceCommands(text, commands));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Prepare a transcript for the clipboard, after the API has answered and
+ * before anything else sees the text
+ */
+export function postProcessTranscript(text: string, options: PostProcessingOptions): string {
+  const processed = buildPipeline(options).reduce((result, step) => step(result), text);
+  if (processed !== text) {
+    console.log("Post-processed transcript, length:", text.length, "->", processed.length);
+  }
+  return processed;
+}
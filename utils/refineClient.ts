@@ -0,0 +1,36 @@
+// utils/refineClient.ts
+
+export interface RefineOptions {
+  preset: string; // Preset id, see lib/refinement/presets.ts
+  model?: string; // Chat model, server default when omitted
+}
+
+export interface RefineResponse {
+  text: string;
+  model?: string; // Model the server used
+}
+
+/**
+ * Send a transcript to /api/refine and return the rewritten text
+ */
+export async function refineTranscript(text: string, options: RefineOptions): Promise<RefineResponse> {
+  console.log("Refining transcript with preset:", options.preset);
+
+  const response = await fetch("/api/refine", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, preset: options.preset, model: options.model }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorMessage = data.error || `Refinement failed: ${response.statusText}`;
+    console.error("Refine API error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+  if (!data.text) {
+    throw new Error("Refinement returned empty text");
+  }
+
+  return { text: data.text, model: data.model };
+}
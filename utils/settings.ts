@@ -0,0 +1,143 @@
+'use client';
+
+import { DEFAULT_SHORTCUT_BINDINGS, findDuplicateShortcuts } from "@/utils/keyboardShortcuts";
+
+// Same defaults as the Electron main process
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: '',
+  model: '',
+  localModelPath: '',
+  localBinaryPath: '',
+  language: '',
+  translate: false,
+  prompt: '',
+  temperature: 0,
+  glossary: [],
+  refineMode: '',
+  refineModel: '',
+  timestamps: '',
+  microphoneId: '',
+  liveTranscription: false,
+  typingSpeed: 10,
+  silenceThreshold: 10,
+  vadHangoverMs: 300,
+  autoStopSeconds: 0,
+  trimSilence: true,
+  windowPositions: [],
+  windowAnchor: 'bottom-center',
+  followCursorDisplay: false,
+  voiceCommands: {
+    enabled: false,
+    language: ''
+  },
+  autoPaste: {
+    enabled: false,
+    restoreClipboard: false
+  },
+  shortcuts: DEFAULT_SHORTCUT_BINDINGS
+};
+
+// localStorage keys used in browser mode
+const SETTINGS_STORAGE_KEY = 'vibetranscribe-settings';
+
+// Components listening for changes made in this window (browser mode)
+const listeners = new Set<(settings: AppSettings) => void>();
+
+const hasElectronSettings = () => typeof window !== 'undefined' && !!window.electronAPI?.getSettings;
+
+/**
+ * Merge changes into settings, including the nested groups
+ */
+function applyChanges(base: AppSettings, changes: AppSettingsChanges): AppSettings {
+  return {
+    ...base,
+    ...changes,
+    voiceCommands: { ...base.voiceCommands, ...changes.voiceCommands },
+    autoPaste: { ...base.autoPaste, ...changes.autoPaste },
+    shortcuts: { ...base.shortcuts, ...changes.shortcuts }
+  };
+}
+
+/**
+ * Read settings from localStorage
+ */
+function readStoredSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return applyChanges(DEFAULT_SETTINGS, JSON.parse(stored));
+    }
+  } catch (error) {
+    console.error("Error reading stored settings:", error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+/**
+ * Load settings from the Electron main process, or localStorage in the browser
+ */
+export async function loadSettings(): Promise<AppSettings> {
+  if (hasElectronSettings()) {
+    return window.electronAPI.getSettings();
+  }
+  return readStoredSettings();
+}
+
+/**
+ * Describe the conflicts that kept shortcuts from being saved
+ */
+function toShortcutError(conflicts: ShortcutConflict[]): Error {
+  return new Error(conflicts.map(conflict => conflict.message).join(', '));
+}
+
+/**
+ * Persist changes to settings
+ * @returns The complete settings after the change
+ * @throws Error listing the conflicts when changed shortcuts were refused, the other changes are saved
+ */
+export async function saveSettings(changes: AppSettingsChanges): Promise<AppSettings> {
+  if (hasElectronSettings()) {
+    const { settings, shortcuts } = await window.electronAPI.setSettings(changes);
+    if (shortcuts && !shortcuts.saved) {
+      throw toShortcutError(shortcuts.conflicts.filter(conflict => conflict.reason !== 'external'));
+    }
+    return settings;
+  }
+
+  const stored = readStoredSettings();
+  const duplicates = changes.shortcuts ? findDuplicateShortcuts({ ...stored.shortcuts, ...changes.shortcuts }) : [];
+  if (duplicates.length > 0) {
+    // Same as the main process, keep the rest of the changes
+    await saveSettings({ ...changes, shortcuts: undefined });
+    throw toShortcutError(duplicates);
+  }
+
+  const updated = applyChanges(stored, changes);
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(updated));
+  listeners.forEach(listener => listener(updated));
+  return updated;
+}
+
+/**
+ * Get notified whenever settings change, from this window or elsewhere
+ * @returns A function that stops the notifications
+ */
+export function subscribeToSettings(callback: (settings: AppSettings) => void): () => void {
+  if (hasElectronSettings()) {
+    return window.electronAPI.onSettingsChanged(callback);
+  }
+
+  // Other tabs write to the same localStorage
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SETTINGS_STORAGE_KEY) {
+      callback(readStoredSettings());
+    }
+  };
+
+  listeners.add(callback);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(callback);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, trimSamples } from '@/utils/silenceTrimming';
+
+const SAMPLE_RATE = 16000;
+
+function tone(seconds: number, amplitude = 0.3): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin((2 * Math.PI * 200 * i) / SAMPLE_RATE) * amplitude;
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    result.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return result;
+}
+
+// Read back the samples of a 16-bit mono WAV
+async function decodeWav(blob: Blob): Promise<{ sampleRate: number; samples: Float32Array }> {
+  const view = new DataView(await blob.arrayBuffer());
+  const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+  expect(text(0)).toBe('RIFF');
+  expect(text(8)).toBe('WAVE');
+  expect(text(36)).toBe('data');
+
+  const samples = new Float32Array(view.getUint32(40, true) / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(44 + i * 2, true) / 0x8000;
+  }
+  return { sampleRate: view.getUint32(24, true), samples };
+}
+
+describe('encodeWav', () => {
+  it('writes a header and 16-bit samples', async () => {
+    const samples = tone(0.1);
+    const blob = encodeWav(samples, SAMPLE_RATE);
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + samples.length * 2);
+
+    const decoded = await decodeWav(blob);
+    expect(decoded.sampleRate).toBe(SAMPLE_RATE);
+    decoded.samples.forEach((sample, i) => expect(sample).toBeCloseTo(samples[i], 3));
+  });
+});
+
+describe('trimSamples', () => {
+  it('cuts the silence around the speech and keeps all of the speech', async () => {
+    const speech = tone(1);
+    const samples = concat(new Float32Array(SAMPLE_RATE), speech, new Float32Array(SAMPLE_RATE * 2));
+
+    const trimmed = trimSamples(samples, { sampleRate: SAMPLE_RATE });
+    expect(trimmed).not.toBeNull();
+
+    const decoded = await decodeWav(trimmed!);
+    const duration = decoded.samples.length / SAMPLE_RATE;
+    expect(duration).toBeGreaterThan(1);
+    expect(duration).toBeLessThan(2);
+
+    // The speech is in there sample for sample, after the leading padding
+    const start = decoded.samples.findIndex(sample => sample !== 0);
+    const kept = decoded.samples.subarray(start - 1, start - 1 + speech.length);
+    expect(kept).toHaveLength(speech.length);
+    kept.forEach((sample, i) => expect(sample).toBeCloseTo(speech[i], 3));
+  });
+
+  it('leaves audio alone when there is little to trim', () => {
+    expect(trimSamples(concat(tone(1), new Float32Array(SAMPLE_RATE / 4)), { sampleRate: SAMPLE_RATE })).toBeNull();
+  });
+
+  it('leaves audio alone when nobody speaks', () => {
+    expect(trimSamples(new Float32Array(SAMPLE_RATE * 2), { sampleRate: SAMPLE_RATE })).toBeNull();
+  });
+});
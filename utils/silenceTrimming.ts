@@ -0,0 +1,103 @@
+// utils/silenceTrimming.ts
+
+import { findSpeechBounds, VadOptions } from "@/utils/voiceActivity";
+
+// Recordings are decoded at the rate the transcription models work at
+const TRIM_SAMPLE_RATE = 16000;
+
+// Not worth re-encoding for less than this
+const MIN_TRIMMED_SECONDS = 0.5;
+
+// The trimmed audio is stored as WAV, several times the size of the recording;
+// a few seconds of silence don't matter in longer recordings
+const MAX_TRIM_SECONDS = 300;
+
+/**
+ * Encode mono samples between -1 and 1 as 16-bit PCM WAV
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the format chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes per second
+  view.setUint16(32, 2, true); // Bytes per sample frame
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Decode a recording to mono samples
+ */
+async function decodeMono(blob: Blob): Promise<Float32Array> {
+  // An offline context decodes and resamples without touching the audio output
+  const context = new OfflineAudioContext(1, 1, TRIM_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(await blob.arrayBuffer());
+  if (audio.numberOfChannels === 1) {
+    return audio.getChannelData(0);
+  }
+
+  const mono = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audio.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Cut the silence before the first and after the last words of a recording
+ * @returns The trimmed recording as WAV, or the original if there was little to trim
+ */
+export async function trimSilence(blob: Blob, vad: Omit<VadOptions, 'sampleRate'> = {}): Promise<Blob> {
+  const samples = await decodeMono(blob);
+  if (samples.length / TRIM_SAMPLE_RATE > MAX_TRIM_SECONDS) {
+    return blob;
+  }
+  return trimSamples(samples, { ...vad, sampleRate: TRIM_SAMPLE_RATE }) ?? blob;
+}
+
+/**
+ * Cut the silence before the first and after the last words of decoded audio
+ * @param samples Mono samples between -1 and 1
+ * @returns The trimmed audio as WAV, or null if there was little to trim
+ */
+export function trimSamples(samples: Float32Array, vad: VadOptions): Blob | null {
+  const { sampleRate } = vad;
+  const duration = samples.length / sampleRate;
+  const bounds = findSpeechBounds(samples, vad);
+  if (!bounds || duration - (bounds.end - bounds.start) < MIN_TRIMMED_SECONDS) {
+    return null;
+  }
+
+  console.log(`Trimming silence: keeping ${bounds.start.toFixed(2)}s to ${bounds.end.toFixed(2)}s of ${duration.toFixed(2)}s`);
+  const trimmed = samples.subarray(
+    Math.floor(bounds.start * sampleRate),
+    Math.ceil(bounds.end * sampleRate)
+  );
+  return encodeWav(trimmed, sampleRate);
+}
@@ -0,0 +1,155 @@
+// utils/transcriptExport.ts
+
+import type { TranscriptionResult, TranscriptSegment } from "@/lib/transcription/types";
+
+export type ExportFormat = 'srt' | 'vtt' | 'md';
+
+export interface ExportOptions {
+  title?: string; // Heading of the Markdown notes
+  recordedAt?: number; // When the recording started, ms since epoch
+}
+
+export interface ExportedTranscript {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+// Subtitle cues built from words stay short enough to read at a glance
+const MAX_CUE_SECONDS = 6;
+const MAX_CUE_CHARACTERS = 84;
+// A pause this long (in seconds) between words starts a new cue
+const CUE_BREAK_PAUSE = 1;
+
+/**
+ * Check whether a transcript has the timestamps subtitles need
+ */
+export function hasTimestamps(transcript: TranscriptionResult): boolean {
+  return !!(transcript.segments?.length || transcript.words?.length);
+}
+
+/**
+ * Split a transcript into timed cues, grouping words when there are word timestamps
+ * because they line up with the audio more closely than segments
+ */
+export function buildCues(transcript: TranscriptionResult): TranscriptSegment[] {
+  if (!transcript.words?.length) {
+    return (transcript.segments ?? []).filter(segment => segment.text);
+  }
+
+  const cues: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const word of transcript.words) {
+    if (!word.word) continue;
+
+    const startsNewCue = !current ||
+      word.end - current.start > MAX_CUE_SECONDS ||
+      current.text.length + word.word.length + 1 > MAX_CUE_CHARACTERS ||
+      word.start - current.end > CUE_BREAK_PAUSE ||
+      // End cues at the end of a sentence
+      /[.!?]$/.test(current.text);
+
+    if (startsNewCue || !current) {
+      current = { start: word.start, end: word.end, text: word.word };
+      cues.push(current);
+    } else {
+      current.end = word.end;
+      current.text += ' ' + word.word;
+    }
+  }
+  return cues;
+}
+
+/**
+ * Format seconds as HH:MM:SS plus milliseconds, e.g. 00:01:02,500
+ * @param separator `,` for SRT, `.` for WebVTT
+ */
+export function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Format seconds as M:SS, or H:MM:SS for long recordings
+ */
+function formatOffset(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * SubRip subtitles
+ */
+export function toSrt(transcript: TranscriptionResult): string {
+  return buildCues(transcript)
+    .map((cue, index) =>
+      `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * WebVTT subtitles
+ */
+export function toWebVtt(transcript: TranscriptionResult): string {
+  const cues = buildCues(transcript)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Meeting notes with a timestamp in front of every segment, or the plain text
+ * when the transcript has no timestamps
+ */
+export function toMarkdown(transcript: TranscriptionResult, options: ExportOptions = {}): string {
+  const lines = [`# ${options.title || 'Transcript'}`, ''];
+
+  const details = [
+    options.recordedAt ? new Date(options.recordedAt).toLocaleString() : null,
+    transcript.duration ? `Duration ${formatOffset(transcript.duration)}` : null,
+    transcript.language ? `Language: ${transcript.language}` : null,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    lines.push(`_${details.join(' · ')}_`, '');
+  }
+
+  // Segments read better than word groups as notes
+  const cues = transcript.segments?.length ? transcript.segments : buildCues(transcript);
+  if (cues.length === 0) {
+    lines.push(transcript.text.trim());
+  } else {
+    for (const cue of cues) {
+      lines.push(`**[${formatOffset(cue.start)}]** ${cue.text}`, '');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Render a transcript in one of the export formats
+ */
+export function exportTranscript(
+  transcript: TranscriptionResult,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportedTranscript {
+  switch (format) {
+    case 'srt':
+      return { content: toSrt(transcript), mimeType: 'application/x-subrip', extension: 'srt' };
+    case 'vtt':
+      return { content: toWebVtt(transcript), mimeType: 'text/vtt', extension: 'vtt' };
+    case 'md':
+      return { content: toMarkdown(transcript, options), mimeType: 'text/markdown', extension: 'md' };
+  }
+}
@@ -0,0 +1,262 @@
+// utils/transcriptionClient.ts
+
+import type { TimestampGranularity, TranscriptionResult } from "@/lib/transcription/types";
+import {
+  getErrorCodeForStatus,
+  isTranscriptionErrorCode,
+  TranscriptionError,
+} from "@/lib/transcription/errors";
+import { isTranscriptionStream, readTranscriptionStream } from "@/utils/transcriptionStream";
+
+export interface TranscribeOptions {
+  provider?: string; // Transcription provider id, server default when omitted
+  model?: string; // Model name, provider default when omitted
+  localModelPath?: string; // ggml model file for the local provider, the server's when omitted
+  localBinaryPath?: string; // whisper.cpp program for the local provider, the server's when omitted
+  language?: string; // ISO-639-1 code of the spoken language, auto-detected when omitted
+  prompt?: string; // Text to guide the vocabulary and style of the transcript
+  temperature?: number; // Sampling temperature between 0 and 1
+  translate?: boolean; // Output English whatever language is spoken
+  glossary?: GlossaryEntry[]; // Terms to spell correctly, sent as a prompt and corrected afterwards
+  timestamps?: TimestampGranularity[]; // Return segment and/or word timestamps with the text
+  onProgress?: (text: string) => void; // Requests a streamed response when set
+  timeoutMs?: number; // Give up on an attempt after this long, scaled to the size of the audio when omitted
+  maxRetries?: number; // Attempts after the first one for transient errors, 2 when omitted
+  onRetry?: (attempt: number, delayMs: number, error: TranscriptionError) => void; // Called before waiting to try again
+}
+
+export interface TranscriptionResponse extends TranscriptionResult {
+  model?: string; // Model the server used, when it reports one
+}
+
+/**
+ * How transcribing a recording ended. A success carries the full response with its
+ * timestamps, the other cases are passed on to the main process as they are.
+ */
+export type TranscriptionAttempt =
+  | { status: 'success'; result: TranscriptionResponse }
+  | Exclude<TranscriptionOutcome, { status: 'success' }>;
+
+export const NO_AUDIO_MESSAGE = "No meaningful audio detected. Please try speaking louder or check your microphone.";
+export const NO_SPEECH_MESSAGE = "No speech was recognised in the recording.";
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// Uploading and transcribing take longer the more audio there is
+const BASE_TIMEOUT_MS = 60 * 1000;
+const TIMEOUT_PER_MB_MS = 15 * 1000;
+// The local engine runs on the CPU, a compressed MB of speech can take minutes
+const LOCAL_TIMEOUT_PER_MB_MS = 3 * 60 * 1000;
+
+/**
+ * Granularities to request for the timestamps setting, words come with their segments
+ */
+export function getTimestampGranularities(detail: AppSettings['timestamps']): TimestampGranularity[] | undefined {
+  if (detail === 'word') return ['segment', 'word'];
+  if (detail === 'segment') return ['segment'];
+  return undefined;
+}
+
+/**
+ * Pick a file extension matching the MIME type of a recorded blob
+ */
+function getFileExtension(blob: Blob): string {
+  return blob.type.includes('webm') ? 'webm' :
+         blob.type.includes('mp4') ? 'mp4' :
+         blob.type.includes('ogg') ? 'ogg' : 'wav';
+}
+
+/**
+ * How long to wait for the transcription of a file of this size
+ */
+function getRequestTimeout(size: number, provider?: string): number {
+  const perMegabyte = provider === 'local' ? LOCAL_TIMEOUT_PER_MB_MS : TIMEOUT_PER_MB_MS;
+  return BASE_TIMEOUT_MS + Math.ceil(size / (1024 * 1024)) * perMegabyte;
+}
+
+/**
+ * Exponential backoff with some jitter, or as long as the server asked for
+ */
+function getRetryDelay(attempt: number, error: TranscriptionError): number {
+  if (error.retryAfter) {
+    return Math.min(error.retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(backoff + Math.random() * RETRY_BASE_DELAY_MS / 2, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Classify whatever a request threw
+ * @param timedOut Set when the request was aborted because it took too long
+ */
+function toTranscriptionError(error: unknown, timedOut: boolean): TranscriptionError {
+  if (error instanceof TranscriptionError) {
+    return error;
+  }
+  if (timedOut) {
+    return new TranscriptionError("Transcription timed out. Please try again.", 'timeout');
+  }
+  // fetch rejects with a TypeError when the server can't be reached or the connection drops
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new TranscriptionError("Could not reach the transcription server. Check your connection.", 'network');
+  }
+  return new TranscriptionError(error instanceof Error ? error.message : String(error), 'unknown');
+}
+
+/**
+ * Make one request to /api/transcribe
+ */
+async function requestTranscription(
+  formData: FormData,
+  timeoutMs: number,
+  onProgress?: (text: string) => void
+): Promise<TranscriptionResponse> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    // Make a request to our API route that will handle the provider call
+    const response = await fetch("/api/transcribe", {
+      method: "POST",
+      body: formData,
+      signal: controller.signal,
+    });
+
+    console.log("API response status:", response.status);
+
+    // Check if the response contains an error
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      const errorMessage = data.error || `Transcription failed: ${response.statusText}`;
+      console.error("API error:", errorMessage);
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new TranscriptionError(
+        errorMessage,
+        isTranscriptionErrorCode(data.code) ? data.code : getErrorCodeForStatus(response.status),
+        retryAfter > 0 ? retryAfter : undefined
+      );
+    }
+
+    // Streamed responses report partial text as the server recognises it
+    if (isTranscriptionStream(response)) {
+      return await readTranscriptionStream(response, onProgress);
+    }
+    return await response.json();
+  } catch (error) {
+    throw toTranscriptionError(error, timedOut);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Send audio to /api/transcribe and return the transcript.
+ * Network errors, timeouts, rate limits and server errors are retried with backoff.
+ * @param blob Recorded audio, or an audio or video file
+ * @param options Provider, model, progress callback and retry behaviour
+ * @returns The transcribed text, empty if nothing was said, its timestamps if requested and the model used
+ * @throws TranscriptionError when the request failed, after any retries
+ */
+export async function transcribeBlob(blob: Blob, options: TranscribeOptions = {}): Promise<TranscriptionResponse> {
+  const {
+    provider,
+    model,
+    localModelPath,
+    localBinaryPath,
+    language,
+    prompt,
+    temperature,
+    translate,
+    glossary,
+    timestamps,
+    onProgress,
+    timeoutMs = getRequestTimeout(blob.size, provider),
+    maxRetries = DEFAULT_MAX_RETRIES,
+    onRetry,
+  } = options;
+
+  // Validate the blob
+  if (blob.size === 0) {
+    throw new TranscriptionError("Audio recording is empty. Please try recording again.", 'bad_audio');
+  }
+
+  // Keep the name of an opened file, its extension tells the API the format.
+  // Convert a recorded blob to File object with the correct extension based on the MIME type
+  const fileName = blob instanceof File && blob.name ? blob.name : `recording.${getFileExtension(blob)}`;
+  console.log("Creating file with name:", fileName, "and type:", blob.type);
+
+  const file = new File([blob], fileName, { type: blob.type || 'audio/webm' });
+  console.log("Created file object:", file.name, "Size:", file.size);
+
+  // Create a FormData object to send the file
+  const formData = new FormData();
+  formData.append("file", file);
+  if (provider) {
+    formData.append("provider", provider);
+  }
+  if (model) {
+    formData.append("model", model);
+  }
+  // Only the local provider runs files on the server's machine
+  if (provider === 'local' && localModelPath) {
+    formData.append("localModelPath", localModelPath);
+  }
+  if (provider === 'local' && localBinaryPath) {
+    formData.append("localBinaryPath", localBinaryPath);
+  }
+  if (translate) {
+    formData.append("task", "translate");
+  } else if (language) {
+    // Translation output is always English, the spoken language is only needed to transcribe
+    formData.append("language", language);
+  }
+  if (prompt) {
+    formData.append("prompt", prompt);
+  }
+  if (temperature !== undefined) {
+    formData.append("temperature", String(temperature));
+  }
+  if (glossary && glossary.length > 0) {
+    formData.append("glossary", JSON.stringify(glossary));
+  }
+  if (timestamps && timestamps.length > 0) {
+    formData.append("timestamps", timestamps.join(","));
+  }
+
+  // Add streaming parameter if we have a progress callback
+  if (onProgress) {
+    formData.append("stream", "true");
+  }
+
+  let result: TranscriptionResponse;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      console.log("Sending request to transcription API...");
+      result = await requestTranscription(formData, timeoutMs, onProgress);
+      break;
+    } catch (error) {
+      const transcriptionError = toTranscriptionError(error, false);
+      if (!transcriptionError.retryable || attempt >= maxRetries) {
+        throw transcriptionError;
+      }
+
+      const delayMs = getRetryDelay(attempt + 1, transcriptionError);
+      console.warn(`Transcription failed (${transcriptionError.code}), retrying in ${Math.round(delayMs)}ms:`, transcriptionError.message);
+      onRetry?.(attempt + 1, delayMs, transcriptionError);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      // The next attempt streams the transcript from the start again
+      onProgress?.('');
+    }
+  }
+
+  // Silence or noise comes back as an empty transcript, callers report it as such
+  result.text = result.text ?? "";
+  console.log("Transcription successful, text length:", result.text.length);
+  return result;
+}
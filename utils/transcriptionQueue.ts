@@ -0,0 +1,141 @@
+// utils/transcriptionQueue.ts
+
+import type { TranscriptionErrorCode } from "@/lib/transcription/errors";
+
+/**
+ * A recording whose transcription failed, kept so it can be tried again later
+ */
+export interface QueuedTranscription {
+  id: string;
+  createdAt: number; // When it was first queued, ms since epoch
+  audio: Blob;
+  error: string; // Message of the last failure
+  code: TranscriptionErrorCode;
+  attempts: number; // Failed transcriptions so far
+  fileName?: string; // Name of the transcribed file, when it wasn't recorded
+  durationMs?: number; // Length of the recording
+  microphone?: string; // Display name of the mic used
+}
+
+export type QueuedTranscriptionInfo = Pick<QueuedTranscription, 'fileName' | 'durationMs' | 'microphone'>;
+
+// Audio is too large for localStorage, IndexedDB keeps it in the browser
+// profile, which Electron stores in the user data directory
+const DB_NAME = 'vibetranscribe';
+const DB_VERSION = 1;
+const STORE_NAME = 'transcription-queue';
+
+// Lets every part of the page know the queue changed
+const CHANGE_EVENT = 'transcription-queue-changed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Try again next time instead of failing forever
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request against the queue store and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * List the queued transcriptions, oldest first
+ */
+export async function listQueuedTranscriptions(): Promise<QueuedTranscription[]> {
+  const entries = await runRequest('readonly', store => store.getAll() as IDBRequest<QueuedTranscription[]>);
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getQueuedTranscription(id: string): Promise<QueuedTranscription | undefined> {
+  return runRequest('readonly', store => store.get(id) as IDBRequest<QueuedTranscription | undefined>);
+}
+
+/**
+ * Keep audio that failed to transcribe
+ */
+export async function enqueueTranscription(
+  audio: Blob,
+  failure: { error: string; code: TranscriptionErrorCode },
+  info: QueuedTranscriptionInfo = {}
+): Promise<QueuedTranscription> {
+  const entry: QueuedTranscription = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    audio,
+    error: failure.error,
+    code: failure.code,
+    attempts: 1,
+    ...info,
+  };
+
+  await runRequest('readwrite', store => store.put(entry));
+  console.log("Queued failed transcription:", entry.id, "size:", audio.size);
+  notifyChange();
+  return entry;
+}
+
+/**
+ * Record another failed attempt at a queued transcription
+ */
+export async function recordQueuedFailure(
+  id: string,
+  failure: { error: string; code: TranscriptionErrorCode }
+): Promise<void> {
+  const entry = await getQueuedTranscription(id);
+  if (!entry) return;
+
+  await runRequest('readwrite', store => store.put({
+    ...entry,
+    error: failure.error,
+    code: failure.code,
+    attempts: entry.attempts + 1,
+  }));
+  notifyChange();
+}
+
+export async function removeQueuedTranscription(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+  notifyChange();
+}
+
+/**
+ * Listen for changes to the queue made anywhere on the page
+ * @returns Function that stops listening
+ */
+export function subscribeToQueue(callback: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, callback);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, callback);
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionError } from '@/lib/transcription/errors';
+import { readTranscriptionStream } from '@/utils/transcriptionStream';
+
+// A streamed response delivering the lines in separate chunks, split mid-line
+function streamResponse(lines: object[]): Response {
+  const body = lines.map(line => `${JSON.stringify(line)}\n`).join('');
+  const middle = Math.floor(body.length / 2);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(body.slice(0, middle)));
+      controller.enqueue(encoder.encode(body.slice(middle)));
+      controller.close();
+    }
+  });
+  return new Response(stream, { headers: { 'content-type': 'application/x-ndjson' } });
+}
+
+describe('readTranscriptionStream', () => {
+  it('reports progress and returns the done event', async () => {
+    const progress: string[] = [];
+    const result = await readTranscriptionStream(
+      streamResponse([
+        { type: 'delta', text: 'Hello' },
+        { type: 'delta', text: ' world' },
+        { type: 'done', text: 'Hello world.', model: 'gpt-4o-transcribe' }
+      ]),
+      text => progress.push(text)
+    );
+
+    expect(progress).toEqual(['Hello', 'Hello world']);
+    expect(result).toMatchObject({ text: 'Hello world.', model: 'gpt-4o-transcribe' });
+  });
+
+  it('throws the error event with its code', async () => {
+    const error = await readTranscriptionStream(
+      streamResponse([{ type: 'error', error: 'Slow down', code: 'rate_limit' }])
+    ).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(TranscriptionError);
+    expect(error.code).toBe('rate_limit');
+  });
+
+  it('throws a retryable error when the stream ends without a done event', async () => {
+    const error = await readTranscriptionStream(
+      streamResponse([{ type: 'delta', text: 'Hello' }])
+    ).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(TranscriptionError);
+    expect(error.code).toBe('network');
+    expect(error.retryable).toBe(true);
+  });
+});
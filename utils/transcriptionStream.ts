@@ -0,0 +1,89 @@
+// utils/transcriptionStream.ts
+
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { isTranscriptionErrorCode, TranscriptionError } from "@/lib/transcription/errors";
+
+/**
+ * One line of the NDJSON stream returned by /api/transcribe when `stream=true`
+ */
+export type TranscriptionStreamMessage =
+  | { type: 'delta'; text: string }
+  | ({ type: 'done'; model?: string } & TranscriptionResult)
+  | { type: 'error'; error: string; code?: string };
+
+export interface StreamedTranscription extends TranscriptionResult {
+  model?: string;
+}
+
+/**
+ * Check whether a response from /api/transcribe is a streamed transcription
+ */
+export function isTranscriptionStream(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes('application/x-ndjson');
+}
+
+/**
+ * Read a streamed transcription, reporting the text recognised so far after every delta
+ * @param response Response of /api/transcribe with an NDJSON body
+ * @param onProgress Called with the accumulated transcript whenever it grows
+ * @returns The final transcript, its timestamps if requested and the model that produced it
+ * @throws TranscriptionError with code 'network' if the stream ends without a done event
+ */
+export async function readTranscriptionStream(
+  response: Response,
+  onProgress?: (text: string) => void
+): Promise<StreamedTranscription> {
+  if (!response.body) {
+    throw new Error("Transcription stream has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let result: StreamedTranscription | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    const message = JSON.parse(line) as TranscriptionStreamMessage;
+    if (message.type === 'delta') {
+      text += message.text;
+      onProgress?.(text);
+    } else if (message.type === 'done') {
+      result = {
+        text: message.text,
+        model: message.model,
+        language: message.language,
+        duration: message.duration,
+        segments: message.segments,
+        words: message.words,
+      };
+    } else if (message.type === 'error') {
+      throw new TranscriptionError(message.error, isTranscriptionErrorCode(message.code) ? message.code : 'server');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Process every complete line, keep the remainder for the next chunk
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      handleLine(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  handleLine(buffer + decoder.decode());
+
+  // The connection dropped before the server finished, the partial text isn't the transcript
+  if (!result) {
+    throw new TranscriptionError("Transcription stream ended before the transcript was complete", 'network');
+  }
+  return result;
+}
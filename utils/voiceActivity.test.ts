@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { detectSpeech, findSpeechBounds, getFrameFeatures, VoiceActivityDetector } from '@/utils/voiceActivity';
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic noise, so a failing test fails the same way every time
+function createRandom(seed = 1) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function noise(seconds: number, amplitude = 0.01, random = createRandom()): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = (random() * 2 - 1) * amplitude;
+  }
+  return samples;
+}
+
+// A low tone over the background noise stands in for a voice
+function voice(seconds: number, frequency = 200, amplitude = 0.3): Float32Array {
+  const samples = noise(seconds, 0.01, createRandom(2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] += Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * amplitude;
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('getFrameFeatures', () => {
+  it('reports digital silence at the lowest level', () => {
+    expect(getFrameFeatures(new Float32Array(320))).toEqual({ energyDb: -100, zeroCrossingRate: 0 });
+  });
+
+  it('tells a low tone from hiss by its zero-crossing rate', () => {
+    expect(getFrameFeatures(voice(0.02)).zeroCrossingRate).toBeLessThan(0.1);
+    expect(getFrameFeatures(noise(0.02)).zeroCrossingRate).toBeGreaterThan(0.35);
+  });
+});
+
+describe('detectSpeech', () => {
+  it('finds nothing in silence', () => {
+    expect(detectSpeech(new Float32Array(SAMPLE_RATE * 2), { sampleRate: SAMPLE_RATE })).toEqual([]);
+  });
+
+  it('finds nothing in background noise', () => {
+    expect(detectSpeech(noise(3), { sampleRate: SAMPLE_RATE })).toEqual([]);
+    expect(detectSpeech(noise(3, 0.05), { sampleRate: SAMPLE_RATE })).toEqual([]);
+  });
+
+  it('finds a voice between stretches of noise', () => {
+    const segments = detectSpeech(concat(noise(1), voice(1), noise(1)), { sampleRate: SAMPLE_RATE });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].start).toBeCloseTo(1, 1);
+    // Speech only ends once the hangover has passed
+    expect(segments[0].end).toBeGreaterThanOrEqual(2.3);
+    expect(segments[0].end).toBeLessThan(2.4);
+  });
+
+  it('ignores clicks shorter than the minimum speech length', () => {
+    expect(detectSpeech(concat(noise(1), voice(0.04), noise(1)), { sampleRate: SAMPLE_RATE })).toEqual([]);
+  });
+
+  it('splits speech at pauses longer than the hangover', () => {
+    const samples = concat(noise(1), voice(0.5), noise(1), voice(0.5), noise(1));
+    expect(detectSpeech(samples, { sampleRate: SAMPLE_RATE })).toHaveLength(2);
+  });
+});
+
+describe('findSpeechBounds', () => {
+  it('returns null when nobody speaks', () => {
+    expect(findSpeechBounds(concat(new Float32Array(SAMPLE_RATE), noise(1)), { sampleRate: SAMPLE_RATE })).toBeNull();
+  });
+
+  it('pads the speech without going past the recording', () => {
+    const bounds = findSpeechBounds(concat(noise(1), voice(1), noise(1)), { sampleRate: SAMPLE_RATE });
+    expect(bounds?.start).toBeCloseTo(0.8, 1);
+    expect(bounds?.end).toBeGreaterThanOrEqual(2.5);
+    expect(bounds?.end).toBeLessThanOrEqual(3);
+
+    const atTheEdges = findSpeechBounds(voice(1), { sampleRate: SAMPLE_RATE });
+    expect(atTheEdges).toEqual({ start: 0, end: 1 });
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  const FRAME_SECONDS = 0.01;
+
+  // Feed audio in 10 ms frames, like the recorder polling the microphone
+  function run(detector: VoiceActivityDetector, samples: Float32Array) {
+    const frameLength = FRAME_SECONDS * SAMPLE_RATE;
+    const decisions = [];
+    for (let offset = 0; offset < samples.length; offset += frameLength) {
+      decisions.push(detector.process(samples.subarray(offset, offset + frameLength)));
+    }
+    return decisions;
+  }
+
+  it('keeps speaking through a pause shorter than the hangover', () => {
+    const detector = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE, hangoverMs: 300 });
+    run(detector, noise(1));
+    expect(run(detector, voice(0.3)).at(-1)?.isSpeech).toBe(true);
+
+    const pause = run(detector, noise(0.2, 0.01, createRandom(3)));
+    expect(pause.every(decision => decision.isSpeech)).toBe(true);
+    expect(pause.every(decision => !decision.isVoiced)).toBe(true);
+    expect(pause.at(-1)?.silenceMs).toBeCloseTo(200);
+
+    const resumed = run(detector, voice(0.3));
+    expect(resumed.every(decision => decision.isSpeech)).toBe(true);
+    expect(resumed.at(-1)?.silenceMs).toBe(0);
+  });
+
+  it('stops speaking once the silence outlasts the hangover', () => {
+    const detector = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE, hangoverMs: 300 });
+    run(detector, concat(noise(1), voice(0.3)));
+
+    const silence = run(detector, noise(0.5, 0.01, createRandom(3)));
+    expect(silence[25].isSpeech).toBe(true);
+    expect(silence.at(-1)?.isSpeech).toBe(false);
+    expect(detector.hasSpeech).toBe(true);
+  });
+
+  it('forgets the speech when reset', () => {
+    const detector = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE });
+    run(detector, concat(noise(1), voice(0.3)));
+    detector.reset();
+    expect(detector.hasSpeech).toBe(false);
+  });
+});
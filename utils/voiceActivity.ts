@@ -0,0 +1,214 @@
+// utils/voiceActivity.ts
+
+/**
+ * Voice activity detection on raw PCM. A frame counts as voiced when its energy stands
+ * out from the background noise and its zero-crossing rate looks like a voice rather
+ * than hiss; a hangover keeps the pauses between words from ending the speech.
+ * Has no browser dependencies, so it works on decoded recordings and on the microphone.
+ */
+
+export interface VadOptions {
+  sampleRate: number;
+  minEnergyDb?: number; // Frames quieter than this (dBFS) are always silence
+  speechMarginDb?: number; // How far above the noise floor a voice has to be
+  maxZeroCrossingRate?: number; // Sign changes per sample above which a quiet frame is noise
+  minSpeechMs?: number; // Voiced frames have to last this long to start speech, ignores clicks
+  hangoverMs?: number; // Silence still counted as speech after the voice stops
+}
+
+export interface FrameFeatures {
+  energyDb: number; // RMS level in dBFS
+  zeroCrossingRate: number; // Sign changes per sample, between 0 and 1
+}
+
+export interface VadDecision extends FrameFeatures {
+  isVoiced: boolean; // This frame on its own looks like speech
+  isSpeech: boolean; // Speech is going on, including the hangover
+  noiseFloorDb: number;
+  silenceMs: number; // Time since the last voiced frame
+}
+
+export interface SpeechSegment {
+  start: number; // Seconds
+  end: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: Required<Omit<VadOptions, 'sampleRate'>> = {
+  minEnergyDb: -50,
+  speechMarginDb: 12,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 60,
+  hangoverMs: 300,
+};
+
+// Offline analysis looks at the audio in frames of this length
+const FRAME_MS = 20;
+
+// Quietest level reported, digital silence would be -Infinity
+const MIN_DB = -100;
+
+// The noise floor follows quieter frames at once but louder ones only slowly,
+// so speech doesn't raise it while a fan switching on eventually does
+const NOISE_FLOOR_RISE_DB_PER_SECOND = 1.5;
+
+/**
+ * Level and zero-crossing rate of a frame of samples between -1 and 1
+ */
+export function getFrameFeatures(frame: Float32Array): FrameFeatures {
+  if (frame.length === 0) {
+    return { energyDb: MIN_DB, zeroCrossingRate: 0 };
+  }
+
+  let sumOfSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumOfSquares += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+
+  const rms = Math.sqrt(sumOfSquares / frame.length);
+  return {
+    energyDb: rms > 0 ? Math.max(MIN_DB, 20 * Math.log10(rms)) : MIN_DB,
+    zeroCrossingRate: frame.length > 1 ? crossings / (frame.length - 1) : 0,
+  };
+}
+
+/**
+ * Decides frame by frame whether someone is speaking. Frames don't need a fixed
+ * length, so the microphone can be sampled at whatever interval suits the caller.
+ */
+export class VoiceActivityDetector {
+  private readonly options: Required<VadOptions>;
+  private noiseFloorDb: number;
+  private speaking = false;
+  private heardSpeech = false;
+  private voicedMs = 0;
+  private silenceMs = 0;
+
+  constructor(options: VadOptions) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.noiseFloorDb = this.options.minEnergyDb;
+  }
+
+  /** Whether speech has been detected since the detector was created or reset */
+  get hasSpeech(): boolean {
+    return this.heardSpeech;
+  }
+
+  /**
+   * Classify the next frame
+   * @param durationMs Time the frame stands for, its length in samples by default
+   */
+  process(frame: Float32Array, durationMs = (frame.length / this.options.sampleRate) * 1000): VadDecision {
+    const features = getFrameFeatures(frame);
+    const { minEnergyDb, speechMarginDb, maxZeroCrossingRate, minSpeechMs, hangoverMs } = this.options;
+
+    const margin = features.energyDb - this.noiseFloorDb;
+    // Fricatives cross zero as often as hiss but are much louder
+    const isVoiced = features.energyDb >= minEnergyDb &&
+      margin >= speechMarginDb &&
+      (features.zeroCrossingRate <= maxZeroCrossingRate || margin >= speechMarginDb * 2);
+
+    // Not below the quietest possible speech, or noise after digital silence (a
+    // microphone warming up) would stand out from it like a voice
+    this.noiseFloorDb = Math.max(minEnergyDb, Math.min(
+      features.energyDb,
+      this.noiseFloorDb + NOISE_FLOOR_RISE_DB_PER_SECOND * (durationMs / 1000)
+    ));
+
+    if (isVoiced) {
+      this.voicedMs += durationMs;
+      this.silenceMs = 0;
+      if (!this.speaking && this.voicedMs >= minSpeechMs) {
+        this.speaking = true;
+        this.heardSpeech = true;
+      }
+    } else {
+      this.voicedMs = 0;
+      this.silenceMs += durationMs;
+      if (this.speaking && this.silenceMs > hangoverMs) {
+        this.speaking = false;
+      }
+    }
+
+    return {
+      ...features,
+      isVoiced,
+      isSpeech: this.speaking,
+      noiseFloorDb: this.noiseFloorDb,
+      silenceMs: this.silenceMs,
+    };
+  }
+
+  reset(): void {
+    this.noiseFloorDb = this.options.minEnergyDb;
+    this.speaking = false;
+    this.heardSpeech = false;
+    this.voicedMs = 0;
+    this.silenceMs = 0;
+  }
+}
+
+/**
+ * Find the stretches of speech in a recording
+ * @param samples Mono samples between -1 and 1
+ */
+export function detectSpeech(samples: Float32Array, options: VadOptions): SpeechSegment[] {
+  const detector = new VoiceActivityDetector(options);
+  const frameLength = Math.max(1, Math.round((options.sampleRate * FRAME_MS) / 1000));
+  const duration = samples.length / options.sampleRate;
+  const segments: SpeechSegment[] = [];
+
+  let voicedSince: number | null = null; // Start of the current run of voiced frames
+  let current: SpeechSegment | null = null;
+
+  for (let offset = 0; offset < samples.length; offset += frameLength) {
+    const frame = samples.subarray(offset, Math.min(offset + frameLength, samples.length));
+    const start = offset / options.sampleRate;
+    const end = Math.min(samples.length, offset + frameLength) / options.sampleRate;
+    const decision = detector.process(frame);
+
+    if (decision.isVoiced) {
+      voicedSince ??= start;
+    } else {
+      voicedSince = null;
+    }
+
+    if (decision.isSpeech) {
+      // Speech starts where the voiced frames that confirmed it began
+      current ??= { start: voicedSince ?? start, end };
+      current.end = end;
+    } else if (current) {
+      segments.push(current);
+      current = null;
+    }
+  }
+
+  if (current) {
+    segments.push({ ...current, end: Math.min(duration, current.end) });
+  }
+  return segments;
+}
+
+/**
+ * Where speech begins and ends in a recording, with some padding so the first and
+ * last syllables aren't clipped
+ * @returns Seconds from the start, or null if nobody speaks
+ */
+export function findSpeechBounds(
+  samples: Float32Array,
+  options: VadOptions,
+  paddingMs = 200
+): SpeechSegment | null {
+  const segments = detectSpeech(samples, options);
+  if (segments.length === 0) return null;
+
+  const duration = samples.length / options.sampleRate;
+  const padding = paddingMs / 1000;
+  return {
+    start: Math.max(0, segments[0].start - padding),
+    end: Math.min(duration, segments[segments.length - 1].end + padding),
+  };
+}
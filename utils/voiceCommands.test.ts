@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { applyVoiceCommands, VOICE_COMMAND_SETS } from '@/utils/voiceCommands';
+
+const { en, de, fr } = VOICE_COMMAND_SETS;
+
+describe('applyVoiceCommands', () => {
+  it('starts a new line and a new paragraph', () => {
+    expect(applyVoiceCommands('first line new line second line', en)).toBe('first line\nsecond line');
+    expect(applyVoiceCommands('Intro. New paragraph. Body text', en)).toBe('Intro.\n\nBody text');
+  });
+
+  it('puts each bullet point on a line of its own', () => {
+    expect(applyVoiceCommands('Shopping list: bullet point milk bullet point eggs', en))
+      .toBe('Shopping list:\n- milk\n- eggs');
+  });
+
+  it('replaces the punctuation the model put around a command', () => {
+    expect(applyVoiceCommands('Hello, comma, world', en)).toBe('Hello, world');
+    expect(applyVoiceCommands('Is it done question mark.', en)).toBe('Is it done?');
+  });
+
+  it('capitalises the word after a sentence end', () => {
+    expect(applyVoiceCommands('it works period thanks a lot', en)).toBe('it works. Thanks a lot');
+    expect(applyVoiceCommands('really exclamation mark yes', en)).toBe('really! Yes');
+  });
+
+  it('uses the quotation marks of the language', () => {
+    expect(applyVoiceCommands('he said open quote hello close quote and left', en))
+      .toBe('he said "hello" and left');
+    expect(applyVoiceCommands('er sagte Anführungszeichen auf hallo Anführungszeichen zu', de))
+      .toBe('er sagte „hallo“');
+    expect(applyVoiceCommands('il a dit ouvrez les guillemets bonjour fermez les guillemets', fr))
+      .toBe('il a dit «bonjour»');
+  });
+
+  it('writes the words between all caps and end caps in capitals', () => {
+    expect(applyVoiceCommands('this is all caps very important end caps for sure', en))
+      .toBe('this is VERY IMPORTANT for sure');
+  });
+
+  it('matches the longest phrase first', () => {
+    expect(applyVoiceCommands('un point virgule deux', fr)).toBe('un; deux');
+    expect(applyVoiceCommands('Liste neuer Punkt Milch', de)).toBe('Liste\n- Milch');
+    expect(applyVoiceCommands('fertig Punkt danke', de)).toBe('fertig. Danke');
+  });
+
+  it('leaves commands inside other words alone', () => {
+    expect(applyVoiceCommands('the comma-separated values', en)).toBe('the comma-separated values');
+    expect(applyVoiceCommands('appointment at noon', fr)).toBe('appointment at noon');
+  });
+});
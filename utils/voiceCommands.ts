@@ -0,0 +1,284 @@
+// utils/voiceCommands.ts
+
+/**
+ * Formatting that can be dictated
+ */
+export type VoiceCommandAction =
+  | 'newLine'
+  | 'newParagraph'
+  | 'bulletPoint'
+  | 'comma'
+  | 'period'
+  | 'questionMark'
+  | 'exclamationMark'
+  | 'colon'
+  | 'semicolon'
+  | 'openQuote'
+  | 'closeQuote'
+  | 'openParen'
+  | 'closeParen'
+  | 'allCaps'
+  | 'endCaps';
+
+/**
+ * The spoken phrases of one language and the symbols they produce
+ */
+export interface VoiceCommandSet {
+  /** Phrases for each action, matched ignoring case */
+  phrases: Record<VoiceCommandAction, string[]>;
+  /** Opening and closing quotation marks */
+  quotes: [string, string];
+}
+
+export const VOICE_COMMAND_SETS: Record<string, VoiceCommandSet> = {
+  en: {
+    phrases: {
+      newLine: ['new line', 'newline', 'next line'],
+      newParagraph: ['new paragraph', 'next paragraph'],
+      bulletPoint: ['bullet point', 'new bullet'],
+      comma: ['comma'],
+      period: ['period', 'full stop'],
+      questionMark: ['question mark'],
+      exclamationMark: ['exclamation mark', 'exclamation point'],
+      colon: ['colon'],
+      semicolon: ['semicolon', 'semi colon'],
+      openQuote: ['open quote', 'open quotes', 'begin quote'],
+      closeQuote: ['close quote', 'close quotes', 'end quote', 'unquote'],
+      openParen: ['open paren', 'open parenthesis', 'open bracket'],
+      closeParen: ['close paren', 'close parenthesis', 'close bracket'],
+      allCaps: ['all caps', 'caps on'],
+      endCaps: ['end caps', 'caps off'],
+    },
+    quotes: ['"', '"'],
+  },
+  de: {
+    phrases: {
+      newLine: ['neue Zeile', 'nächste Zeile'],
+      newParagraph: ['neuer Absatz', 'nächster Absatz'],
+      bulletPoint: ['Aufzählungspunkt', 'neuer Punkt'],
+      comma: ['Komma'],
+      period: ['Punkt'],
+      questionMark: ['Fragezeichen'],
+      exclamationMark: ['Ausrufezeichen'],
+      colon: ['Doppelpunkt'],
+      semicolon: ['Semikolon', 'Strichpunkt'],
+      openQuote: ['Anführungszeichen auf', 'Anführungszeichen unten'],
+      closeQuote: ['Anführungszeichen zu', 'Anführungszeichen oben'],
+      openParen: ['Klammer auf'],
+      closeParen: ['Klammer zu'],
+      allCaps: ['Großbuchstaben an', 'alles groß'],
+      endCaps: ['Großbuchstaben aus', 'Ende groß'],
+    },
+    quotes: ['„', '“'],
+  },
+  fr: {
+    phrases: {
+      newLine: ['nouvelle ligne', 'à la ligne'],
+      newParagraph: ['nouveau paragraphe'],
+      bulletPoint: ['puce', 'nouvelle puce'],
+      comma: ['virgule'],
+      period: ['point'],
+      questionMark: ["point d'interrogation"],
+      exclamationMark: ["point d'exclamation"],
+      colon: ['deux points'],
+      semicolon: ['point virgule'],
+      openQuote: ['ouvrez les guillemets', 'ouvrir les guillemets'],
+      closeQuote: ['fermez les guillemets', 'fermer les guillemets'],
+      openParen: ['ouvrez la parenthèse', 'ouvrir la parenthèse'],
+      closeParen: ['fermez la parenthèse', 'fermer la parenthèse'],
+      allCaps: ['tout en majuscules'],
+      endCaps: ['fin des majuscules'],
+    },
+    quotes: ['«', '»'],
+  },
+  es: {
+    phrases: {
+      newLine: ['nueva línea', 'salto de línea'],
+      newParagraph: ['nuevo párrafo'],
+      bulletPoint: ['viñeta', 'nueva viñeta'],
+      comma: ['coma'],
+      period: ['punto'],
+      questionMark: ['signo de interrogación'],
+      exclamationMark: ['signo de exclamación'],
+      colon: ['dos puntos'],
+      semicolon: ['punto y coma'],
+      openQuote: ['abrir comillas', 'abre comillas'],
+      closeQuote: ['cerrar comillas', 'cierra comillas'],
+      openParen: ['abrir paréntesis', 'abre paréntesis'],
+      closeParen: ['cerrar paréntesis', 'cierra paréntesis'],
+      allCaps: ['todo en mayúsculas'],
+      endCaps: ['fin de mayúsculas'],
+    },
+    quotes: ['"', '"'],
+  },
+};
+
+// Symbols that replace a command, quotes come from the language
+const PUNCTUATION: Partial<Record<VoiceCommandAction, string>> = {
+  comma: ',',
+  period: '.',
+  questionMark: '?',
+  exclamationMark: '!',
+  colon: ':',
+  semicolon: ';',
+};
+
+const SENTENCE_ENDS: VoiceCommandAction[] = ['period', 'questionMark', 'exclamationMark'];
+
+// Punctuation the model adds around a spoken command, e.g. "Hello, comma, world"
+const MODEL_PUNCTUATION = '[,.;:!?]*';
+// Hyphens count too, "comma-separated" is a word and not a command
+const WORD_CHAR = '[\\p{L}\\p{N}_-]';
+
+interface OutputState {
+  text: string;
+  caps: boolean; // Between "all caps" and "end caps"
+  attachNext: boolean; // No space before the next word, e.g. after an opening quote
+  capitalizeNext: boolean; // The next word starts a sentence
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lower case, single spaces and straight apostrophes, so a phrase can be looked up
+ * however the model wrote it
+ */
+function normalizePhrase(phrase: string): string {
+  return phrase.toLowerCase().replace(/[\s-]+/g, ' ').replace(/’/g, "'").trim();
+}
+
+/**
+ * Build the pattern matching any command phrase with the punctuation around it
+ */
+function buildCommandPattern(phrases: string[]): RegExp {
+  const alternatives = phrases
+    // Longest first, so "point virgule" wins over "point"
+    .sort((a, b) => b.length - a.length)
+    // Words may be separated by spaces or hyphens, apostrophes may be curly
+    .map(phrase => escapeRegExp(phrase).replace(/\s+/g, '[\\s-]+').replace(/'/g, "['’]"))
+    .join('|');
+
+  return new RegExp(
+    `(${MODEL_PUNCTUATION})\\s*(?<!${WORD_CHAR})(${alternatives})(?!${WORD_CHAR})(${MODEL_PUNCTUATION})`,
+    'giu'
+  );
+}
+
+function removeTrailingSpaces(text: string): string {
+  return text.replace(/[ \t]+$/, '');
+}
+
+/**
+ * Add dictated words, with a space unless they start a line or follow an opening mark
+ */
+function appendWords(state: OutputState, words: string) {
+  let text = words.trim();
+  if (!text) return;
+
+  if (state.caps) {
+    text = text.toUpperCase();
+  }
+  if (state.capitalizeNext) {
+    text = text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  const needsSpace = state.text !== '' && !state.attachNext && !/\s$/.test(state.text);
+  state.text += (needsSpace ? ' ' : '') + text;
+  state.attachNext = false;
+  state.capitalizeNext = false;
+}
+
+/**
+ * Add the symbol or layout of a command.
+ * `before` and `after` are the punctuation the model put around the phrase; only the
+ * commands that don't replace it keep it.
+ */
+function applyCommand(state: OutputState, action: VoiceCommandAction, before: string, after: string, quotes: [string, string]) {
+  const punctuation = PUNCTUATION[action];
+  if (punctuation) {
+    state.text = removeTrailingSpaces(state.text) + punctuation;
+    state.attachNext = false;
+    state.capitalizeNext = SENTENCE_ENDS.includes(action);
+    return;
+  }
+
+  switch (action) {
+    case 'newLine':
+    case 'newParagraph':
+      state.text = removeTrailingSpaces(state.text) + before + (action === 'newLine' ? '\n' : '\n\n');
+      state.attachNext = true;
+      break;
+    case 'bulletPoint':
+      state.text = removeTrailingSpaces(state.text) + before;
+      if (state.text && !state.text.endsWith('\n')) {
+        state.text += '\n';
+      }
+      state.text += '- ';
+      state.attachNext = true;
+      break;
+    case 'openQuote':
+    case 'openParen': {
+      state.text = removeTrailingSpaces(state.text) + before;
+      const needsSpace = state.text !== '' && !state.attachNext && !/\s$/.test(state.text);
+      state.text += (needsSpace ? ' ' : '') + (action === 'openQuote' ? quotes[0] : '(');
+      state.attachNext = true;
+      break;
+    }
+    case 'closeQuote':
+    case 'closeParen':
+      state.text = removeTrailingSpaces(state.text) + (action === 'closeQuote' ? quotes[1] : ')') + after;
+      state.attachNext = false;
+      break;
+    case 'allCaps':
+      state.text = removeTrailingSpaces(state.text) + before;
+      state.caps = true;
+      break;
+    case 'endCaps':
+      state.text = removeTrailingSpaces(state.text) + after;
+      state.caps = false;
+      break;
+  }
+}
+
+/**
+ * Turn spoken commands such as "new line", "comma" or "all caps ... end caps" into formatting.
+ * Pure: the same text and command set always give the same result.
+ * @param text Transcript as returned by the model
+ * @param commands Phrases of the language that was spoken
+ */
+export function applyVoiceCommands(text: string, commands: VoiceCommandSet): string {
+  const actionsByPhrase = new Map<string, VoiceCommandAction>();
+  for (const [action, phrases] of Object.entries(commands.phrases) as [VoiceCommandAction, string[]][]) {
+    for (const phrase of phrases) {
+      actionsByPhrase.set(normalizePhrase(phrase), action);
+    }
+  }
+  if (actionsByPhrase.size === 0) return text;
+
+  const pattern = buildCommandPattern(Array.from(actionsByPhrase.keys()));
+  const state: OutputState = { text: '', caps: false, attachNext: false, capitalizeNext: false };
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const [matched, before, phrase, after] = match;
+    const action = actionsByPhrase.get(normalizePhrase(phrase));
+    if (!action) continue;
+
+    appendWords(state, text.slice(lastIndex, match.index));
+    applyCommand(state, action, before, after, commands.quotes);
+    lastIndex = (match.index ?? 0) + matched.length;
+  }
+  appendWords(state, text.slice(lastIndex));
+
+  // Commands at the end of a line leave spaces behind
+  return state.text.replace(/[ \t]+$/gm, '');
+}
+
+/**
+ * Get the commands for a language code, if that language has any
+ */
+export function getVoiceCommandSet(language: string): VoiceCommandSet | undefined {
+  return VOICE_COMMAND_SETS[language];
+}